@@ -6,6 +6,7 @@ import Image from 'next/image';
 import { NetworkCanvas } from '@/components/network-canvas';
 import { Sidebar } from '@/components/sidebar';
 import { PerformanceMetrics } from '@/components/performance-metrics';
+import { SimulationTimeline } from '@/components/simulation-timeline';
 import { NetworkProvider } from '@/context/network-context';
 import { TypingGlitchTagline } from '@/components/typing-glitch-tagline';
 
@@ -63,6 +64,7 @@ const Home: NextPage = () => {
           <Sidebar />
           <div className="flex flex-1 flex-col overflow-hidden"> {/* This column contains Canvas and Metrics */}
             <NetworkCanvas />
+            <SimulationTimeline />
             <PerformanceMetrics />
           </div>
         </div>
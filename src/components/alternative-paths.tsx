@@ -0,0 +1,55 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useNetwork } from '@/context/network-context';
+import { Button } from './ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { GitFork } from 'lucide-react';
+
+const MAX_K = 20;
+
+export function AlternativePaths() {
+  const { alternativePaths, findAlternativePaths, setPreviewPath, nodes } = useNetwork();
+  const [k, setK] = useState(3);
+
+  const nodeLabel = (id: string) => nodes.find(n => n.id === id)?.data.label || id;
+
+  return (
+    <div className="space-y-3 border p-3 rounded-md bg-secondary/50">
+      <h4 className="font-medium text-sm"><GitFork className="inline-block mr-2 h-4 w-4" />Alternative Paths</h4>
+      <div className="flex items-end gap-2">
+        <div className="space-y-1 flex-1">
+          <Label htmlFor="kPaths" className="text-xs">Number of paths (K)</Label>
+          <Input
+            id="kPaths"
+            type="number"
+            value={k}
+            onChange={(e) => setK(Math.min(MAX_K, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+            min={1}
+            max={MAX_K}
+            className="text-xs h-8"
+          />
+        </div>
+        <Button variant="outline" size="sm" onClick={() => findAlternativePaths(k)}>
+          Find Paths
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">Loopless source → target paths ranked by the selected algorithm&apos;s cost (Yen&apos;s algorithm). Hover a path to show it on the canvas.</p>
+      {alternativePaths && alternativePaths.length > 0 && (
+        <ol className="space-y-1" onMouseLeave={() => setPreviewPath(null)}>
+          {alternativePaths.map((result, idx) => (
+            <li
+              key={result.path.join('-')}
+              className="flex justify-between gap-2 rounded px-2 py-1 text-xs hover:bg-background cursor-default"
+              onMouseEnter={() => setPreviewPath(result.path)}
+            >
+              <span><span className="font-medium mr-1">{idx + 1}.</span>{result.path.map(nodeLabel).join(' → ')}</span>
+              <span className="text-muted-foreground shrink-0">{result.cost.toFixed(2)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -4,12 +4,22 @@
 import React, { memo } from 'react';
 import { Handle, Position, NodeProps } from 'reactflow';
 import { Card, CardContent } from '@/components/ui/card';
-import { BatteryMedium, Layers2, Router, Network, Server, ShieldAlert, Ban } from 'lucide-react'; // Added ShieldAlert, Ban
-import type { NodeData } from '@/context/network-context';
+import { BatteryMedium, Layers2, Router, Network, Server, ShieldAlert, Ban, TreePine, Crown } from 'lucide-react'; // Added ShieldAlert, Ban
+import { useNetwork, type NodeData } from '@/context/network-context';
 import { cn } from '@/lib/utils';
+import { DEFAULT_BUFFER_CAPACITY } from '@/lib/metrics-model';
+import { CLUSTER_COLORS } from '@/lib/colors';
 
-const CustomNode = memo(({ data, isConnectable, selected }: NodeProps<NodeData>) => {
+const CustomNode = memo(({ id, data, isConnectable, selected }: NodeProps<NodeData>) => {
   const { label, battery, queueSize, role, isFailed } = data;
+  const { rpl, leach, leachRound } = useNetwork();
+  const rank = rpl?.ranks[id];
+  // LEACH cluster of the round picked in the panel: the border takes the head's colour.
+  const snapshot = leach?.clusters[leachRound];
+  const clusterHead = snapshot?.membership[id];
+  const clusterColor = clusterHead ? CLUSTER_COLORS[snapshot!.heads.indexOf(clusterHead) % CLUSTER_COLORS.length] : undefined;
+  const bufferCapacity = data.bufferCapacity ?? DEFAULT_BUFFER_CAPACITY;
+  const occupancy = Math.min(1, queueSize / bufferCapacity);
 
   const getIcon = () => {
     if (isFailed) return <Ban size={16} className="text-destructive" />;
@@ -31,6 +41,12 @@ const CustomNode = memo(({ data, isConnectable, selected }: NodeProps<NodeData>)
     return 'text-battery-high';
   };
 
+  const getOccupancyColorClass = (fill: number) => {
+    if (fill >= 0.8) return 'bg-[hsl(var(--battery-low-hsl))]';
+    if (fill >= 0.5) return 'bg-[hsl(var(--battery-medium-hsl))]';
+    return 'bg-[hsl(var(--battery-high-hsl))]';
+  };
+
   const getRoleIndicatorStyle = (nodeRole: NodeData['role']) => {
     if (isFailed) return 'bg-destructive/70'; // Failed indicator color
     switch (nodeRole) {
@@ -50,8 +66,9 @@ const CustomNode = memo(({ data, isConnectable, selected }: NodeProps<NodeData>)
         'w-36 transition-all duration-150 ease-in-out overflow-hidden',
         isFailed && 'opacity-60 border-destructive shadow-none',
         selected && !isFailed && 'border-primary ring-2 ring-primary shadow-lg',
-        selected && isFailed && 'border-destructive ring-2 ring-destructive shadow-md'
-      )}>
+        selected && isFailed && 'border-destructive ring-2 ring-destructive shadow-md',
+        clusterColor && !selected && 'border-2'
+      )} style={clusterColor && !selected ? { borderColor: clusterColor } : undefined}>
       <div className={cn("h-1.5 w-full", getRoleIndicatorStyle(role))} /> 
       <CardContent className="p-2 text-center">
          <div className="flex items-center justify-center mb-1 gap-1">
@@ -64,12 +81,29 @@ const CustomNode = memo(({ data, isConnectable, selected }: NodeProps<NodeData>)
               <BatteryMedium size={12} />
               <span>{battery}%</span>
             </div>
-            <div className="flex items-center gap-0.5 text-muted-foreground" title={`Queue: ${queueSize}`}>
+            <div className="flex items-center gap-0.5 text-muted-foreground" title={`Queue: ${queueSize} / ${bufferCapacity}`}>
               <Layers2 size={12} />
-              <span>{queueSize}</span>
+              <span>{queueSize}/{bufferCapacity}</span>
             </div>
           </div>
         )}
+        {!isFailed && (
+          <div className="h-1 w-full rounded-full bg-muted mt-1 overflow-hidden" title={`Buffer occupancy: ${Math.round(occupancy * 100)}%`}>
+            <div className={cn("h-full transition-all duration-150", getOccupancyColorClass(occupancy))} style={{ width: `${occupancy * 100}%` }} />
+          </div>
+        )}
+        {rpl && !isFailed && (
+          <div className={cn("flex items-center justify-center gap-0.5 text-xs mt-1", rank === undefined ? "text-destructive" : "text-muted-foreground")} title={rank === undefined ? 'Not attached to the DODAG' : `RPL rank ${rank}${rpl.parents[id] === null ? ' (root)' : ''}`}>
+            <TreePine size={12} />
+            <span>{rank === undefined ? 'detached' : `rank ${rank}`}</span>
+          </div>
+        )}
+        {clusterHead === id && (
+          <div className="flex items-center justify-center gap-0.5 text-xs mt-1 font-semibold" style={{ color: clusterColor }} title={`LEACH cluster head in round ${snapshot!.round}`}>
+            <Crown size={12} />
+            <span>cluster head</span>
+          </div>
+        )}
         {isFailed && (
             <div className="text-xs text-destructive font-semibold mt-1">NODE FAILED</div>
         )}
@@ -0,0 +1,140 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useNetwork } from '@/context/network-context';
+import { Button } from './ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { LineChart, Line, CartesianGrid, XAxis, YAxis, ReferenceLine } from 'recharts';
+import { Network, StepForward, FastForward, RotateCcw } from 'lucide-react';
+import { DV_INFINITY, type DistanceVectorVariant } from '@/lib/distance-vector';
+
+const chartConfig = {
+  changes: { label: 'Route changes', color: 'hsl(var(--chart-1))' },
+  maxMetric: { label: 'Longest route (hops)', color: 'hsl(var(--chart-2))' },
+};
+
+// Routing table of one node in the running distance-vector protocol.
+export function RoutingTableView({ nodeId }: { nodeId: string }) {
+  const { distanceVector, nodes } = useNetwork();
+  if (!distanceVector) return null;
+
+  const nodeLabel = (id: string) => nodes.find(n => n.id === id)?.data.label || id;
+  const table = distanceVector.tables[nodeId];
+  const isDsdv = distanceVector.variant === 'dsdv';
+
+  return (
+    <div className="space-y-2">
+      <Label><Network className="inline-block mr-2 h-4 w-4" /> Routing Table ({distanceVector.variant.toUpperCase()}, round {distanceVector.round})</Label>
+      {!table ? (
+        <p className="text-xs text-muted-foreground">Node is down; its table was lost.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="h-7 text-xs">Dest</TableHead>
+              <TableHead className="h-7 text-xs">Next hop</TableHead>
+              <TableHead className="h-7 text-xs text-right">Hops</TableHead>
+              {isDsdv && <TableHead className="h-7 text-xs text-right">Seq</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {Object.values(table).sort((a, b) => nodeLabel(a.destination).localeCompare(nodeLabel(b.destination))).map(entry => (
+              <TableRow key={entry.destination} className={entry.metric >= DV_INFINITY ? 'text-destructive' : undefined}>
+                <TableCell className="py-1 text-xs">{nodeLabel(entry.destination)}</TableCell>
+                <TableCell className="py-1 text-xs">{entry.nextHop ? nodeLabel(entry.nextHop) : '—'}</TableCell>
+                <TableCell className="py-1 text-xs text-right">{entry.metric >= DV_INFINITY ? '∞' : entry.metric}</TableCell>
+                {isDsdv && <TableCell className="py-1 text-xs text-right">{entry.sequence}</TableCell>}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
+
+export function DistanceVectorPanel() {
+  const { distanceVector, startDistanceVector, advanceDistanceVector, nodes } = useNetwork();
+  const [variant, setVariant] = useState<DistanceVectorVariant>('rip');
+
+  const nodeLabel = (id: string) => nodes.find(n => n.id === id)?.data.label || id;
+  const failureRounds = distanceVector?.history.filter(round => round.newlyFailed.length > 0) ?? [];
+
+  return (
+    <div className="space-y-3 border p-3 rounded-md bg-secondary/50">
+      <h4 className="font-medium text-sm"><Network className="inline-block mr-2 h-4 w-4" />Distance-Vector Protocol</h4>
+      <div className="flex items-end gap-2">
+        <div className="space-y-1 flex-1">
+          <Label className="text-xs">Variant</Label>
+          <Select value={variant} onValueChange={(value) => setVariant(value as DistanceVectorVariant)}>
+            <SelectTrigger className="w-full text-xs h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="rip">RIP (hop count, no split horizon)</SelectItem>
+              <SelectItem value="dsdv">DSDV (sequence numbers)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => startDistanceVector(variant)} title="Start from empty tables">
+          <RotateCcw className="mr-1 h-3 w-3" /> Start
+        </Button>
+      </div>
+      {distanceVector && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant="outline" size="sm" onClick={() => advanceDistanceVector(false)}>
+              <StepForward className="mr-1 h-3 w-3" /> Step
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => advanceDistanceVector(true)}>
+              <FastForward className="mr-1 h-3 w-3" /> Converge
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Round {distanceVector.round}: {distanceVector.converged
+              ? `converged (no change since round ${distanceVector.convergedAtRound}).`
+              : `${distanceVector.history[distanceVector.history.length - 1].changes} route changes.`}
+            {' '}Fail a node from its properties and keep stepping to see the routes react{distanceVector.variant === 'rip' ? ', counting to infinity (16 hops)' : ''}.
+          </p>
+          {distanceVector.history.length > 1 && (
+            <ChartContainer config={chartConfig} className="h-36 w-full">
+              <LineChart data={distanceVector.history} margin={{ top: 5, right: 5, left: -25, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="round" fontSize={10} tickLine={false} />
+                <YAxis fontSize={10} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent indicator="line" labelFormatter={(_, payload) => `Round ${payload?.[0]?.payload?.round}`} />} />
+                {failureRounds.map(round => (
+                  <ReferenceLine
+                    key={round.round}
+                    x={round.round}
+                    stroke="hsl(var(--destructive))"
+                    strokeDasharray="4 2"
+                    label={{ value: `${round.newlyFailed.map(nodeLabel).join(', ')} down`, fontSize: 9, fill: 'hsl(var(--destructive))', position: 'insideTopRight' }}
+                  />
+                ))}
+                <Line type="stepAfter" dataKey="changes" stroke="var(--color-changes)" dot={false} strokeWidth={2} isAnimationActive={false} />
+                <Line type="stepAfter" dataKey="maxMetric" stroke="var(--color-maxMetric)" dot={false} strokeWidth={2} isAnimationActive={false} />
+              </LineChart>
+            </ChartContainer>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
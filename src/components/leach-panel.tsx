@@ -0,0 +1,115 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useNetwork } from '@/context/network-context';
+import { Button } from './ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent } from '@/components/ui/chart';
+import { LineChart, Line, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Crown } from 'lucide-react';
+import type { ProtocolLifetime } from '@/lib/leach';
+import { CLUSTER_COLORS } from '@/lib/colors';
+
+const energyConfig = {
+  leachEnergy: { label: 'LEACH', color: 'hsl(var(--chart-1))' },
+  flatEnergy: { label: 'Flat', color: 'hsl(var(--chart-2))' },
+};
+
+const aliveConfig = {
+  leachAlive: { label: 'LEACH', color: 'hsl(var(--chart-1))' },
+  flatAlive: { label: 'Flat', color: 'hsl(var(--chart-2))' },
+};
+
+export function LeachPanel() {
+  const { leach, runLeach, leachRound, setLeachRound, nodes } = useNetwork();
+  const [headFraction, setHeadFraction] = useState(0.2);
+
+  const nodeLabel = (id: string) => nodes.find(n => n.id === id)?.data.label || id;
+  const snapshot = leach?.clusters[leachRound];
+  const round = (value: number | null) => value === null ? '—' : value;
+  const summary = (name: string, lifetime: ProtocolLifetime) => (
+    <p>
+      <strong>{name}</strong>: first death {round(lifetime.firstDeathRound)} · half dead {round(lifetime.halfDeathRound)} · data until round {lifetime.lastRound} · {lifetime.deliveredReadings} readings for {(lifetime.totalEnergy / 1000).toFixed(0)} mJ
+    </p>
+  );
+
+  return (
+    <div className="space-y-3 border p-3 rounded-md bg-secondary/50">
+      <h4 className="font-medium text-sm"><Crown className="inline-block mr-2 h-4 w-4" />LEACH Clustering</h4>
+      <div className="flex items-end gap-2">
+        <div className="space-y-1 flex-1">
+          <Label htmlFor="headFraction" className="text-xs">Cluster-head fraction (P)</Label>
+          <Input
+            id="headFraction"
+            type="number"
+            value={headFraction}
+            onChange={(e) => setHeadFraction(parseFloat(e.target.value) || 0)}
+            min={0.05}
+            max={1}
+            step={0.05}
+            className="text-xs h-8"
+          />
+        </div>
+        <Button variant="outline" size="sm" onClick={() => runLeach(headFraction)}>
+          Run Rounds
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">Sensors take turns as cluster heads, about one in 1/P per round; heads merge their members&apos; readings into one packet for the gateway. Compared with every sensor routing its own reading (flat) until no reading gets through.</p>
+      {leach && (
+        <>
+          <div className="text-xs text-muted-foreground space-y-0.5">
+            {summary('LEACH', leach.leach)}
+            {summary('Flat', leach.flat)}
+          </div>
+          <ChartContainer config={energyConfig} className="h-36 w-full">
+            <LineChart data={leach.series} margin={{ top: 5, right: 5, left: -15, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="round" type="number" domain={['dataMin', 'dataMax']} fontSize={10} tickLine={false} />
+              <YAxis fontSize={10} tickFormatter={(value: number) => value.toFixed(0)} />
+              <ChartTooltip content={<ChartTooltipContent indicator="line" labelFormatter={(_, payload) => `Round ${payload?.[0]?.payload?.round} · µJ spent`} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line type="monotone" dataKey="leachEnergy" stroke="var(--color-leachEnergy)" dot={false} strokeWidth={2} isAnimationActive={false} />
+              <Line type="monotone" dataKey="flatEnergy" stroke="var(--color-flatEnergy)" dot={false} strokeWidth={2} isAnimationActive={false} />
+            </LineChart>
+          </ChartContainer>
+          <ChartContainer config={aliveConfig} className="h-36 w-full">
+            <LineChart data={leach.series} margin={{ top: 5, right: 5, left: -25, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="round" type="number" domain={['dataMin', 'dataMax']} fontSize={10} tickLine={false} />
+              <YAxis fontSize={10} allowDecimals={false} domain={[0, leach.sensors]} />
+              <ChartTooltip content={<ChartTooltipContent indicator="line" labelFormatter={(_, payload) => `Round ${payload?.[0]?.payload?.round} · sensors alive`} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line type="stepAfter" dataKey="leachAlive" stroke="var(--color-leachAlive)" dot={false} strokeWidth={2} isAnimationActive={false} />
+              <Line type="stepAfter" dataKey="flatAlive" stroke="var(--color-flatAlive)" dot={false} strokeWidth={2} isAnimationActive={false} />
+            </LineChart>
+          </ChartContainer>
+          {snapshot && (
+            <div className="space-y-2">
+              <Label className="flex justify-between items-center text-xs">
+                <span>Clusters on the canvas</span>
+                <span>Round {snapshot.round}</span>
+              </Label>
+              <Slider
+                min={0} max={leach.clusters.length - 1} step={1}
+                value={[leachRound]}
+                onValueChange={(value) => setLeachRound(value[0])}
+                className="[&>span]:h-1 [&_[role=slider]]:h-3 [&_[role=slider]]:w-3"
+              />
+              <ul className="space-y-0.5">
+                {snapshot.heads.map((head, idx) => (
+                  <li key={head} className="flex items-center gap-2 text-xs">
+                    <span className="h-2 w-4 rounded-sm shrink-0" style={{ backgroundColor: CLUSTER_COLORS[idx % CLUSTER_COLORS.length] }} />
+                    {nodeLabel(head)}: {Object.entries(snapshot.membership).filter(([member, of]) => of === head && member !== head).length} members
+                  </li>
+                ))}
+                {snapshot.heads.length === 0 && <li className="text-xs text-muted-foreground">No head elected; every sensor sends straight to a gateway.</li>}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 
 'use client';
 
-import React, { useCallback, useRef, useState, useEffect } from 'react';
+import React, { useCallback, useRef, useState, useEffect, useMemo } from 'react';
 import ReactFlow, {
   Controls,
   Background,
@@ -19,6 +19,7 @@ import ReactFlow, {
 import 'reactflow/dist/style.css';
 import { useNetwork } from '@/context/network-context';
 import CustomNode from './custom-node';
+import PacketEdge from './packet-edge';
 import { Button } from './ui/button';
 import { Play, Plus, Trash2, Maximize, Minimize } from 'lucide-react';
 import {
@@ -29,8 +30,12 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { exampleScenarios } from '@/lib/example-scenarios';
+import { applyFrameToNodes, applyFrameToEdges } from '@/lib/timeline';
+import { pathEdges } from '@/lib/metrics-model';
+import { MULTIPATH_COLORS, RPL_PARENT_COLOR, CLUSTER_COLORS } from '@/lib/colors';
 
 const nodeTypes = { custom: CustomNode };
+const edgeTypes = { packet: PacketEdge };
 
 export function NetworkCanvas() {
   const {
@@ -44,12 +49,55 @@ export function NetworkCanvas() {
     runSimulation, // Directly use runSimulation
     clearNetwork,
     loadExample,
+    timeline,
+    timelineIndex,
+    previewPath,
+    multipath,
+    distanceVector,
+    rpl,
+    leach,
+    leachRound,
   } = useNetwork();
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
   const [reactFlowInstance, setReactFlowInstance] =
     React.useState<ReactFlowInstance | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
 
+  // During timeline playback the canvas shows the network as it was at that tick.
+  const currentFrame = timeline?.[timelineIndex] ?? null;
+  const displayedNodes = useMemo(() => applyFrameToNodes(nodes, currentFrame), [nodes, currentFrame]);
+  // Disjoint multipath routes get one colour each; a hovered alternative path is drawn on top.
+  // Links whose advertisements changed a routing table in the latest distance-vector round flash too,
+  // and each node of an RPL DODAG shows the link to its preferred parent. In the LEACH round picked in
+  // its panel, members' hops to their head and the head's uplink take the cluster's colour.
+  const displayedEdges = useMemo(() => {
+    const routeColor = new Map<string, string>();
+    Object.entries(rpl?.parents ?? {}).forEach(([child, parent]) => {
+      const edge = parent ? edges.find(e => e.source === child && e.target === parent) : undefined;
+      if (edge) routeColor.set(edge.id, RPL_PARENT_COLOR);
+    });
+    const snapshot = leach?.clusters[leachRound];
+    snapshot?.paths.forEach(path => {
+      const head = snapshot.membership[path[0]];
+      if (!head) return; // Sent straight to a gateway
+      const color = CLUSTER_COLORS[snapshot.heads.indexOf(head) % CLUSTER_COLORS.length];
+      path.slice(1).forEach((nodeId, i) => {
+        const edge = edges.find(e => (e.source === path[i] && e.target === nodeId) || (e.source === nodeId && e.target === path[i]));
+        if (edge) routeColor.set(edge.id, color);
+      });
+    });
+    distanceVector?.history[distanceVector.history.length - 1].updatedLinks.forEach(id => routeColor.set(id, 'hsl(var(--chart-2))'));
+    multipath?.routes.forEach((route, idx) => {
+      (pathEdges(route.path, edges) ?? []).forEach(edge => routeColor.set(edge.id, MULTIPATH_COLORS[idx % MULTIPATH_COLORS.length]));
+    });
+    (previewPath ? pathEdges(previewPath, edges) ?? [] : []).forEach(edge => routeColor.set(edge.id, 'hsl(var(--chart-5))'));
+    const framedEdges = applyFrameToEdges(edges, currentFrame);
+    if (routeColor.size === 0) return framedEdges;
+    return framedEdges.map(edge => routeColor.has(edge.id)
+      ? { ...edge, style: { ...edge.style, stroke: routeColor.get(edge.id), strokeWidth: 4 }, animated: true }
+      : edge);
+  }, [edges, currentFrame, previewPath, multipath, distanceVector, rpl, leach, leachRound]);
+
   const onConnect = useCallback(
     (params: Connection | Edge) =>
       setEdges((eds) =>
@@ -126,7 +174,8 @@ export function NetworkCanvas() {
 
   const onEdgeClick = useCallback(
     (_: React.MouseEvent, edge: Edge) => {
-      setSelectedElement(edge);
+      // Select the stored edge, not the displayed one carrying the playback frame's packets.
+      setSelectedElement(edges.find(e => e.id === edge.id) ?? edge);
       setEdges((eds) =>
         eds.map((e) => ({
           ...e,
@@ -141,7 +190,7 @@ export function NetworkCanvas() {
         }))
       );
     },
-    [setSelectedElement, setEdges, setNodes]
+    [edges, setSelectedElement, setEdges, setNodes]
   );
 
    const onPaneClick = useCallback(() => {
@@ -218,8 +267,8 @@ export function NetworkCanvas() {
   return (
     <div className="flex-grow h-2/3 relative" ref={reactFlowWrapper}>
       <ReactFlow
-        nodes={nodes}
-        edges={edges}
+        nodes={displayedNodes}
+        edges={displayedEdges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
         onConnect={onConnect}
@@ -230,6 +279,7 @@ export function NetworkCanvas() {
         onEdgeClick={onEdgeClick}
         onPaneClick={onPaneClick}
         nodeTypes={nodeTypes}
+        edgeTypes={edgeTypes}
         fitView
         fitViewOptions={{ padding: 0.3 }}
         className="bg-background"
@@ -0,0 +1,71 @@
+'use client';
+
+import React, { memo } from 'react';
+import { BaseEdge, getBezierPath, type EdgeProps } from 'reactflow';
+import type { PacketEdgeData } from '@/lib/timeline';
+import { flowColor } from '@/lib/colors';
+
+// Point at parameter t on the cubic bezier described by an SVG "M x,y C x1,y1 x2,y2 x,y" path.
+const pointOnBezier = (path: string, t: number): { x: number; y: number } => {
+  const [x0, y0, x1, y1, x2, y2, x3, y3] = (path.match(/-?\d+(\.\d+)?(e-?\d+)?/g) || []).map(Number);
+  const u = 1 - t;
+  return {
+    x: u * u * u * x0 + 3 * u * u * t * x1 + 3 * u * t * t * x2 + t * t * t * x3,
+    y: u * u * u * y0 + 3 * u * u * t * y1 + 3 * u * t * t * y2 + t * t * t * y3,
+  };
+};
+
+// Bezier edge that draws the packets of the current timeline frame, passed in
+// its data, as dots moving along it, colored by flow, with a red burst where
+// packets are dropped.
+const PacketEdge = memo(({
+  id,
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  sourcePosition,
+  targetPosition,
+  style,
+  markerEnd,
+  data,
+}: EdgeProps<PacketEdgeData>) => {
+  const [edgePath] = getBezierPath({ sourceX, sourceY, sourcePosition, targetX, targetY, targetPosition });
+  const packets = data?.packets ?? [];
+  const drops = data?.drops ?? [];
+
+  return (
+    <>
+      <BaseEdge id={id} path={edgePath} style={style} markerEnd={markerEnd} />
+      {packets.map(packet => {
+        const { x, y } = pointOnBezier(edgePath, packet.progress);
+        return (
+          <circle
+            key={packet.packetId}
+            r={4}
+            fill={flowColor(packet.flowId)}
+            stroke="hsl(var(--background))"
+            strokeWidth={1}
+            style={{ transform: `translate(${x}px, ${y}px)`, transition: 'transform 150ms linear' }}
+          />
+        );
+      })}
+      {drops.map(drop => {
+        const { x, y } = pointOnBezier(edgePath, drop.progress);
+        return (
+          <g key={`drop-${drop.packetId}`} transform={`translate(${x}, ${y})`}>
+            <circle r={4} fill="hsl(var(--destructive))" />
+            <circle r={4} fill="none" stroke="hsl(var(--destructive))" strokeWidth={2}>
+              <animate attributeName="r" from="4" to="14" dur="0.5s" fill="freeze" />
+              <animate attributeName="opacity" from="1" to="0" dur="0.5s" fill="freeze" />
+            </circle>
+          </g>
+        );
+      })}
+    </>
+  );
+});
+
+PacketEdge.displayName = 'PacketEdge';
+
+export default PacketEdge;
@@ -1,7 +1,7 @@
 
 'use client';
 
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { useNetwork } from '@/context/network-context';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import {
@@ -19,11 +19,20 @@ import {
   ChartLegend,
   ChartLegendContent,
 } from '@/components/ui/chart';
-import { BarChart, CartesianGrid, XAxis, YAxis, Bar, ResponsiveContainer } from 'recharts'; // Removed Tooltip, Legend as ChartTooltip/Legend are used
+import { BarChart, ScatterChart, CartesianGrid, XAxis, YAxis, ZAxis, Bar, ErrorBar, Scatter, Cell, ResponsiveContainer } from 'recharts'; // Removed Tooltip, Legend as ChartTooltip/Legend are used
 import { ScrollArea } from './ui/scroll-area';
+import type { SimulationResult, PerformanceMetricsData } from '@/context/network-context';
+
+// Red (drained relay) through yellow to green (full batteries).
+const batteryColor = (battery: number) => `hsl(${Math.round(battery * 1.2)}, 75%, 45%)`;
 
 export function PerformanceMetrics() {
-  const { simulationResults, simulationParams } = useNetwork();
+  const { simulationResults, simulationParams, nodes, paretoFront, highlightPath } = useNetwork();
+  const [selectedParetoIndex, setSelectedParetoIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    setSelectedParetoIndex(null);
+  }, [paretoFront]);
 
   if (!simulationResults || simulationResults.length === 0) {
     return (
@@ -40,26 +49,58 @@ export function PerformanceMetrics() {
     );
   }
 
-  const chartData = simulationResults.map(result => ({
+  const nodeLabel = (id: string) => nodes.find(n => n.id === id)?.data.label || id;
+  const batch = simulationResults[0].batch;
+
+  // Metric cell text: the value, or mean ± 95% CI half-width for batch runs.
+  const formatMetric = (result: SimulationResult, key: keyof PerformanceMetricsData, digits: number, scale = 1) => {
+    const stats = result.batch?.metrics[key];
+    const value = (result.metrics[key] * scale).toFixed(digits);
+    return stats && stats.n > 1 ? `${value} ± ${(stats.ciHalfWidth * scale).toFixed(digits)}` : value;
+  };
+  const metricTitle = (result: SimulationResult, key: keyof PerformanceMetricsData, scale = 1) => {
+    const stats = result.batch?.metrics[key];
+    return stats ? `std-dev ${(stats.stdDev * scale).toFixed(3)} over ${stats.n} runs` : undefined;
+  };
+
+  // Results that ended in a negative cycle have no meaningful metrics to chart.
+  const chartData = simulationResults.filter(result => !result.negativeCycle).map(result => ({
     name: result.algorithm,
     energy: result.metrics.energyConsumption,
     latency: result.metrics.averageLatency,
     deliveryRatio: result.metrics.deliveryRatio * 100, // Convert to percentage
     lifetime: result.metrics.networkLifetime,
+    energyError: result.batch?.metrics.energyConsumption.ciHalfWidth ?? 0,
+    latencyError: result.batch?.metrics.averageLatency.ciHalfWidth ?? 0,
+    deliveryRatioError: (result.batch?.metrics.deliveryRatio.ciHalfWidth ?? 0) * 100,
+    lifetimeError: result.batch?.metrics.networkLifetime.ciHalfWidth ?? 0,
   }));
 
   const chartConfig = {
-    energy: { label: 'Energy (units)', color: 'hsl(var(--chart-1))' },
+    energy: { label: 'Energy (µJ)', color: 'hsl(var(--chart-1))' },
     latency: { label: 'Latency (ms)', color: 'hsl(var(--chart-2))' },
     deliveryRatio: { label: 'Delivery (%)', color: 'hsl(var(--chart-3))' },
-    lifetime: { label: 'Lifetime (steps)', color: 'hsl(var(--chart-4))' },
+    lifetime: { label: 'Lifetime (rounds)', color: 'hsl(var(--chart-4))' },
+  };
+
+  const showPareto = paretoFront !== null && paretoFront.length > 0;
+  const panelWidth = showPareto ? 'lg:w-1/3' : 'lg:w-1/2';
+  const paretoData = paretoFront?.map((point, index) => ({ ...point, index })) ?? [];
+  const selectParetoPoint = (index: number) => {
+    setSelectedParetoIndex(index);
+    highlightPath(paretoData[index].path);
   };
 
 
   return (
     <Card className="h-1/3 border-t rounded-none border-none flex flex-col">
       <CardHeader className="p-4 pb-2">
-        <CardTitle className="text-lg">Performance Metrics Comparison</CardTitle>
+        <CardTitle className="text-lg flex items-baseline justify-between">
+          <span>Performance Metrics Comparison</span>
+          <span className="text-xs font-normal text-muted-foreground">
+            {batch ? `${batch.replications} runs · seeds ${batch.seeds[0]}–${batch.seeds[batch.seeds.length - 1]} · mean ± 95% CI` : `Seed: ${simulationResults[0].seed}`}
+          </span>
+        </CardTitle>
       </CardHeader>
       <CardContent className="flex-grow p-4 pt-0 flex flex-col overflow-hidden">
         {simulationParams.algorithm === 'compare' && simulationResults && simulationResults.length > 0 && (
@@ -67,8 +108,93 @@ export function PerformanceMetrics() {
             (Canvas path displayed is for the <strong>Adaptive</strong> algorithm)
           </p>
         )}
+        {simulationResults.some(result => result.packetTrace) && (
+          <div className="text-xs text-muted-foreground mb-2 text-center space-y-0.5">
+            {simulationResults.filter(result => result.packetTrace).map(result => {
+              const trace = result.packetTrace!;
+              const overflow = trace.packets.filter(p => p.dropReason === 'overflow').length;
+              return (
+                <p key={result.algorithm}>
+                  <strong>{result.algorithm}</strong>: {trace.generated} packets sent, {trace.delivered} delivered, {trace.dropped} dropped ({overflow} overflow, {trace.dropped - overflow} link loss), {trace.retransmissions} retransmissions
+                </p>
+              );
+            })}
+          </div>
+        )}
+        {simulationResults.some(result => result.queues && Object.keys(result.queues).length > 0) && (
+          <div className="text-xs text-muted-foreground mb-2 text-center space-y-0.5">
+            {simulationResults.filter(result => result.queues && Object.keys(result.queues).length > 0).map(result => {
+              // The most utilised buffer is the one that limits the flows.
+              const [nodeId, queue] = Object.entries(result.queues!).reduce((busiest, entry) =>
+                entry[1].arrivalRate / entry[1].serviceRate > busiest[1].arrivalRate / busiest[1].serviceRate ? entry : busiest);
+              return (
+                <p key={result.algorithm}>
+                  <strong>{result.algorithm}</strong>: busiest buffer {nodeLabel(nodeId)} · load {(queue.arrivalRate / queue.serviceRate * 100).toFixed(0)}% · occupancy {queue.occupancy.toFixed(1)}/{queue.capacity} · wait {queue.waitingTimeMs.toFixed(1)} ms · tail drop {(queue.blockingProbability * 100).toFixed(2)}%
+                </p>
+              );
+            })}
+          </div>
+        )}
+        {simulationResults.some(result => result.convergecast) && (
+          <div className="text-xs text-muted-foreground mb-2 text-center space-y-0.5">
+            {simulationResults.filter(result => result.convergecast).map(result => {
+              const tree = result.convergecast!;
+              const load = Object.entries(tree.gatewayLoad).map(([gatewayId, sensors]) => `${nodeLabel(gatewayId)} ${sensors}`).join(', ');
+              return (
+                <p key={result.algorithm}>
+                  <strong>{result.algorithm}</strong>: tree depth {tree.treeDepth} hops · gateway load (sensors) {load || '—'} · orphaned {tree.orphanedSensors.length > 0 ? tree.orphanedSensors.map(nodeLabel).join(', ') : 'none'}
+                </p>
+              );
+            })}
+          </div>
+        )}
+        {simulationResults.some(result => result.linkState) && (
+          <div className="text-xs text-muted-foreground mb-2 text-center space-y-0.5">
+            {simulationResults.filter(result => result.linkState).map(result => {
+              const report = result.linkState!;
+              return (
+                <p key={result.algorithm}>
+                  <strong>{result.algorithm}</strong>: {report.helloMessages} HELLO + {report.tcMessages} LSA messages (plain flooding: {report.floodingTcMessages} LSA) · {(report.controlBytes / 1000).toFixed(1)} kB · {report.signalingEnergy.toFixed(0)} µJ signalling · converged in {report.convergenceTimeMs.toFixed(1)} ms · {report.completeDatabases}/{report.activeNodes} complete databases
+                </p>
+              );
+            })}
+          </div>
+        )}
+        {simulationResults.some(result => result.aodv) && (
+          <div className="text-xs text-muted-foreground mb-2 text-center space-y-0.5">
+            {simulationResults.filter(result => result.aodv).map(result => {
+              const report = result.aodv!;
+              return (
+                <React.Fragment key={result.algorithm}>
+                  <p>
+                    <strong>{result.algorithm}</strong>: {report.discoveries.length} route {report.discoveries.length === 1 ? 'discovery' : 'discoveries'} · {report.rreqBroadcasts} RREQ broadcasts + {report.rrepMessages} RREP + {report.rerrMessages} RERR · {(report.controlBytes / 1000).toFixed(1)} kB · {report.signalingEnergy.toFixed(0)} µJ signalling · discovery latency {report.averageDiscoveryMs !== null ? `${report.averageDiscoveryMs.toFixed(1)} ms` : '—'}{report.cachedRoutes > 0 ? ` · ${report.cachedRoutes} cached ${report.cachedRoutes === 1 ? 'route' : 'routes'} reused` : ''}
+                  </p>
+                  {report.routeErrors.slice(0, 3).map((error, idx) => (
+                    <p key={idx} className="text-destructive">
+                      Route error {nodeLabel(error.source)} → {nodeLabel(error.target)}: {nodeLabel(error.brokenAt)} down, detected by {nodeLabel(error.detectedBy)} after {error.detectionMs.toFixed(1)} ms · {error.rerrMessages} RERR · {error.repairMs !== null ? `repaired in ${error.repairMs.toFixed(1)} ms` : 'no route left'}
+                    </p>
+                  ))}
+                </React.Fragment>
+              );
+            })}
+          </div>
+        )}
+        {simulationResults.some(result => result.lifetime) && (
+          <div className="text-xs text-muted-foreground mb-2 text-center space-y-0.5">
+            {simulationResults.filter(result => result.lifetime).map(result => {
+              const report = result.lifetime!;
+              const rounds = (round: number | null) => round === null ? `not reached in ${report.rounds}` : round;
+              return (
+                <p key={result.algorithm}>
+                  <strong>{result.algorithm}</strong>: first node death {rounds(report.firstNodeDeathRound)} · {report.deathThreshold}% dead {rounds(report.thresholdDeathRound)} · disconnected {rounds(report.disconnectionRound)} (rounds)
+                  {report.roundLimit !== null && <> · stopped at the {report.roundLimit}-round limit</>}
+                </p>
+              );
+            })}
+          </div>
+        )}
         <div className="flex flex-1 flex-col lg:flex-row gap-4 overflow-hidden">
-          <div className="w-full lg:w-1/2 h-full">
+          <div className={`w-full ${panelWidth} h-full`}>
              <h4 className="text-sm font-medium mb-2 text-center">Metrics Overview</h4>
              <ChartContainer config={chartConfig} className="h-[calc(100%-2rem)] w-full">
                 <ResponsiveContainer width="100%" height="100%">
@@ -81,36 +207,106 @@ export function PerformanceMetrics() {
                         cursor={false}
                       />
                       <ChartLegend content={<ChartLegendContent />} />
-                      <Bar dataKey="energy" fill="var(--color-energy)" radius={4} />
-                      <Bar dataKey="latency" fill="var(--color-latency)" radius={4} />
-                      <Bar dataKey="deliveryRatio" fill="var(--color-deliveryRatio)" radius={4} />
-                      <Bar dataKey="lifetime" fill="var(--color-lifetime)" radius={4} />
+                      <Bar dataKey="energy" fill="var(--color-energy)" radius={4}>
+                        {batch && <ErrorBar dataKey="energyError" width={4} strokeWidth={1} stroke="hsl(var(--foreground))" />}
+                      </Bar>
+                      <Bar dataKey="latency" fill="var(--color-latency)" radius={4}>
+                        {batch && <ErrorBar dataKey="latencyError" width={4} strokeWidth={1} stroke="hsl(var(--foreground))" />}
+                      </Bar>
+                      <Bar dataKey="deliveryRatio" fill="var(--color-deliveryRatio)" radius={4}>
+                        {batch && <ErrorBar dataKey="deliveryRatioError" width={4} strokeWidth={1} stroke="hsl(var(--foreground))" />}
+                      </Bar>
+                      <Bar dataKey="lifetime" fill="var(--color-lifetime)" radius={4}>
+                        {batch && <ErrorBar dataKey="lifetimeError" width={4} strokeWidth={1} stroke="hsl(var(--foreground))" />}
+                      </Bar>
                    </BarChart>
                 </ResponsiveContainer>
              </ChartContainer>
           </div>
-           <div className="w-full lg:w-1/2 h-full">
+           {showPareto && (
+             <div className="w-full lg:w-1/3 h-full">
+               <h4 className="text-sm font-medium mb-2 text-center">
+                 Pareto Front <span className="text-xs font-normal text-muted-foreground">({paretoData.length} non-dominated {paretoData.length === 1 ? 'path' : 'paths'}, click to show)</span>
+               </h4>
+               <ChartContainer config={{}} className="h-[calc(100%-2rem)] w-full">
+                 <ResponsiveContainer width="100%" height="100%">
+                   <ScatterChart margin={{ top: 5, right: 10, left: -10, bottom: 5 }}>
+                     <CartesianGrid strokeDasharray="3 3" />
+                     <XAxis type="number" dataKey="latency" name="Latency" unit=" ms" fontSize={10} tickMargin={5} domain={['auto', 'auto']} />
+                     <YAxis type="number" dataKey="energy" name="Energy" unit=" µJ" fontSize={10} tickMargin={5} domain={['auto', 'auto']} />
+                     <ZAxis range={[80, 80]} />
+                     <ChartTooltip
+                       cursor={false}
+                       content={({ active, payload }) => {
+                         const point = active ? payload?.[0]?.payload as (typeof paretoData)[number] | undefined : undefined;
+                         if (!point) return null;
+                         return (
+                           <div className="rounded-lg border bg-background px-2.5 py-1.5 text-xs shadow-xl space-y-0.5">
+                             <p className="font-medium">{point.path.map(nodeLabel).join(' → ')}</p>
+                             <p>Latency {point.latency.toFixed(2)} ms · Energy {point.energy.toFixed(2)} µJ</p>
+                             <p>Weakest relay battery {point.minBattery.toFixed(0)}%</p>
+                           </div>
+                         );
+                       }}
+                     />
+                     <Scatter data={paretoData} className="cursor-pointer" onClick={(entry: { index: number }) => selectParetoPoint(entry.index)}>
+                       {paretoData.map(point => (
+                         <Cell
+                           key={point.path.join('-')}
+                           fill={batteryColor(point.minBattery)}
+                           stroke={point.index === selectedParetoIndex ? 'hsl(var(--foreground))' : 'none'}
+                           strokeWidth={2}
+                         />
+                       ))}
+                     </Scatter>
+                   </ScatterChart>
+                 </ResponsiveContainer>
+               </ChartContainer>
+             </div>
+           )}
+           <div className={`w-full ${panelWidth} h-full`}>
              <h4 className="text-sm font-medium mb-2 text-center">Detailed Table</h4>
              <ScrollArea className="h-[calc(100%-2rem)]">
                <Table>
                  <TableHeader>
                    <TableRow>
                      <TableHead className="w-[100px]">Algorithm</TableHead>
-                     <TableHead className="text-right">Energy</TableHead>
-                     <TableHead className="text-right">Latency</TableHead>
+                     <TableHead className="text-right">Path Cost</TableHead>
+                     <TableHead className="text-right">Energy (µJ)</TableHead>
+                     <TableHead className="text-right">Latency (ms)</TableHead>
                      <TableHead className="text-right">Delivery %</TableHead>
                      <TableHead className="text-right">Lifetime</TableHead>
                    </TableRow>
                  </TableHeader>
                  <TableBody>
-                   {simulationResults.map((result) => (
+                   {simulationResults.map((result) => result.negativeCycle ? (
                      <TableRow key={result.algorithm}>
                        <TableCell className="font-medium text-xs">{result.algorithm}</TableCell>
-                       <TableCell className="text-right text-xs">{result.metrics.energyConsumption.toFixed(2)}</TableCell>
-                       <TableCell className="text-right text-xs">{result.metrics.averageLatency.toFixed(2)}</TableCell>
-                       <TableCell className="text-right text-xs">{(result.metrics.deliveryRatio * 100).toFixed(1)}%</TableCell>
-                       <TableCell className="text-right text-xs">{result.metrics.networkLifetime}</TableCell>
+                       <TableCell colSpan={5} className="text-xs text-destructive font-medium">
+                         Negative cycle detected: {result.negativeCycle.map(nodeLabel).join(' → ')}
+                       </TableCell>
                      </TableRow>
+                   ) : (
+                     <React.Fragment key={result.algorithm}>
+                       <TableRow>
+                         <TableCell className="font-medium text-xs">{result.algorithm}{result.flowResults && ' (all flows)'}</TableCell>
+                         <TableCell className="text-right text-xs">{!result.flowResults && result.pathCost !== undefined ? result.pathCost.toFixed(2) : '—'}</TableCell>
+                         <TableCell className="text-right text-xs" title={metricTitle(result, 'energyConsumption')}>{formatMetric(result, 'energyConsumption', 2)}</TableCell>
+                         <TableCell className="text-right text-xs" title={metricTitle(result, 'averageLatency')}>{formatMetric(result, 'averageLatency', 2)}</TableCell>
+                         <TableCell className="text-right text-xs" title={metricTitle(result, 'deliveryRatio', 100)}>{formatMetric(result, 'deliveryRatio', 1, 100)}%</TableCell>
+                         <TableCell className="text-right text-xs" title={metricTitle(result, 'networkLifetime')}>{result.batch ? formatMetric(result, 'networkLifetime', 0) : result.metrics.networkLifetime}</TableCell>
+                       </TableRow>
+                       {result.flowResults?.map(flowResult => (
+                         <TableRow key={`${result.algorithm}-${flowResult.flowId}`} className="text-muted-foreground">
+                           <TableCell className="text-xs pl-6">{nodeLabel(flowResult.source)} → {flowResult.target ? nodeLabel(flowResult.target) : '?'}</TableCell>
+                           <TableCell className="text-right text-xs">{flowResult.pathCost !== undefined ? flowResult.pathCost.toFixed(2) : 'no path'}</TableCell>
+                           <TableCell className="text-right text-xs">{flowResult.metrics.energyConsumption.toFixed(2)}</TableCell>
+                           <TableCell className="text-right text-xs">{flowResult.metrics.averageLatency.toFixed(2)}</TableCell>
+                           <TableCell className="text-right text-xs">{(flowResult.metrics.deliveryRatio * 100).toFixed(1)}%</TableCell>
+                           <TableCell className="text-right text-xs">{flowResult.metrics.networkLifetime}</TableCell>
+                         </TableRow>
+                       ))}
+                     </React.Fragment>
                    ))}
                  </TableBody>
                </Table>
@@ -0,0 +1,82 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useNetwork } from '@/context/network-context';
+import { Button } from './ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { TreePine, Wrench, RefreshCw } from 'lucide-react';
+import type { RplObjective, RplEvent } from '@/lib/rpl';
+import { RPL_PARENT_COLOR } from '@/lib/colors';
+
+const EVENT_LABELS: Record<RplEvent['kind'], string> = {
+  build: 'Build',
+  'local-repair': 'Local repair',
+  'global-repair': 'Global repair',
+};
+
+export function RplPanel() {
+  const { rpl, buildRpl, repairRpl, nodes } = useNetwork();
+  const [objective, setObjective] = useState<RplObjective>('hop');
+
+  const nodeLabel = (id: string) => nodes.find(n => n.id === id)?.data.label || id;
+  const ranks = rpl ? Object.values(rpl.ranks) : [];
+  const activeCount = nodes.filter(n => !n.data.isFailed).length;
+
+  return (
+    <div className="space-y-3 border p-3 rounded-md bg-secondary/50">
+      <h4 className="font-medium text-sm"><TreePine className="inline-block mr-2 h-4 w-4" />RPL DODAG</h4>
+      <div className="flex items-end gap-2">
+        <div className="space-y-1 flex-1">
+          <Label className="text-xs">Objective function</Label>
+          <Select value={objective} onValueChange={(value) => setObjective(value as RplObjective)}>
+            <SelectTrigger className="w-full text-xs h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="hop">Hop count (OF0)</SelectItem>
+              <SelectItem value="etx">ETX (MRHOF)</SelectItem>
+              <SelectItem value="energy">Parent battery</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => buildRpl(objective)} title="Flood DIOs from every active gateway">
+          Build
+        </Button>
+      </div>
+      {rpl && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant="outline" size="sm" onClick={() => repairRpl('local')} title="Nodes that lost their parent pick another of lower rank">
+              <Wrench className="mr-1 h-3 w-3" /> Local Repair
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => repairRpl('global')} title="The roots issue a new DODAG version and everyone rejoins">
+              <RefreshCw className="mr-1 h-3 w-3" /> Global Repair
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            <span className="inline-block h-2 w-4 rounded-sm mr-1 align-middle" style={{ backgroundColor: RPL_PARENT_COLOR }} />
+            Version {rpl.version} ({rpl.objective}) · {ranks.length}/{activeCount} active nodes attached · mean rank {ranks.length > 0 ? (ranks.reduce((sum, rank) => sum + rank, 0) / ranks.length).toFixed(0) : '—'}.
+            {rpl.detached.length > 0 && <span className="text-destructive"> Detached: {rpl.detached.map(nodeLabel).join(', ')}.</span>}
+            {' '}Fail a node from its properties, then repair to see how the DODAG heals.
+          </p>
+          <ul className="space-y-0.5">
+            {rpl.history.slice(-5).reverse().map((event, idx) => (
+              <li key={rpl.history.length - idx} className="text-xs text-muted-foreground">
+                <strong>{EVENT_LABELS[event.kind]}</strong> v{event.version}
+                {event.newlyFailed.length > 0 && <> after {event.newlyFailed.map(nodeLabel).join(', ')} down</>}
+                : {event.dioMessages} DIOs · {event.controlBytes} B · {event.signalingEnergy.toFixed(0)} µJ · {event.parentChanges} parent changes · settled in {event.convergenceTimeMs.toFixed(1)} ms
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -16,11 +16,21 @@ import {
 } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
 import { Button } from './ui/button';
-import { Save, Trash2, Type, BatteryCharging, ArrowRightLeft, Layers3, Zap, Clock, LayoutGrid, ShieldAlert, ShieldCheck } from 'lucide-react'; // Added ShieldAlert, ShieldCheck
+import { Save, Trash2, Type, BatteryCharging, ArrowRightLeft, Layers3, Zap, Clock, LayoutGrid, ShieldAlert, ShieldCheck, Leaf, Dices, Package, Plus, Route, Radio, WifiOff, RotateCcw, Archive, Gauge, Repeat } from 'lucide-react'; // Added ShieldAlert, ShieldCheck
 import { ScrollArea } from './ui/scroll-area';
 import { Separator } from './ui/separator';
 import type { Node, Edge } from 'reactflow';
-import type { NodeData } from '@/context/network-context';
+import type { NodeData, TrafficFlow } from '@/context/network-context';
+import { generateSeed } from '@/lib/random';
+import { DEFAULT_BURST_ON_MS, DEFAULT_BURST_OFF_MS } from '@/lib/traffic-generator';
+import { DEFAULT_BUFFER_CAPACITY } from '@/lib/metrics-model';
+import { WeightSweep } from './weight-sweep';
+import { WeightOptimizer } from './weight-optimizer';
+import { AlternativePaths } from './alternative-paths';
+import { MultipathRouting } from './multipath-routing';
+import { DistanceVectorPanel, RoutingTableView } from './distance-vector-panel';
+import { RplPanel } from './rpl-panel';
+import { LeachPanel } from './leach-panel';
 
 
 interface SidebarProps {}
@@ -52,7 +62,7 @@ export function Sidebar({}: SidebarProps) {
     }
   }, [selectedElement]);
 
-  const handleInputChange = (field: string, value: string | number) => {
+  const handleInputChange = (field: string, value: string | number | undefined) => {
     setLocalData((prev: any) => ({ ...prev, [field]: value }));
   };
 
@@ -68,6 +78,34 @@ export function Sidebar({}: SidebarProps) {
     setSimulationParams((prev) => ({ ...prev, [field]: value }));
   };
 
+  const handleAddFlow = () => {
+    setSimulationParams((prev) => ({
+      ...prev,
+      flows: [
+        ...prev.flows,
+        {
+          id: `flow_${+new Date()}`,
+          source: prev.sourceNode || '',
+          target: prev.targetNode || '',
+          rate: prev.packetRate,
+          packetSize: prev.packetSize,
+          priority: 'normal',
+        },
+      ],
+    }));
+  };
+
+  const handleFlowChange = (flowId: string, changes: Partial<TrafficFlow>) => {
+    setSimulationParams((prev) => ({
+      ...prev,
+      flows: prev.flows.map((flow) => (flow.id === flowId ? { ...flow, ...changes } : flow)),
+    }));
+  };
+
+  const handleRemoveFlow = (flowId: string) => {
+    setSimulationParams((prev) => ({ ...prev, flows: prev.flows.filter((flow) => flow.id !== flowId) }));
+  };
+
 
   const handleSave = () => {
     if (selectedElement) {
@@ -141,6 +179,33 @@ export function Sidebar({}: SidebarProps) {
                          disabled={selectedNodeData?.isFailed}
                       />
                     </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="bufferCapacity" className="text-xs"><Archive className="inline-block mr-1 h-3 w-3" /> Buffer (pkts)</Label>
+                        <Input
+                          id="bufferCapacity"
+                          type="number"
+                          value={localData?.bufferCapacity ?? DEFAULT_BUFFER_CAPACITY}
+                          onChange={(e) => handleInputChange('bufferCapacity', Math.max(1, parseInt(e.target.value, 10) || 1))}
+                          min={1}
+                          className="text-sm"
+                          disabled={selectedNodeData?.isFailed}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="serviceRate" className="text-xs"><Gauge className="inline-block mr-1 h-3 w-3" /> Service (pkts/s)</Label>
+                        <Input
+                          id="serviceRate"
+                          type="number"
+                          value={localData?.serviceRate ?? ''}
+                          onChange={(e) => handleInputChange('serviceRate', e.target.value === '' ? undefined : Math.max(0.1, parseFloat(e.target.value) || 0.1))}
+                          min={0.1}
+                          placeholder="Link-limited"
+                          className="text-sm"
+                          disabled={selectedNodeData?.isFailed}
+                        />
+                      </div>
+                    </div>
                     <div className="space-y-2">
                       <Label htmlFor="role">Role</Label>
                       <Select
@@ -158,6 +223,70 @@ export function Sidebar({}: SidebarProps) {
                         </SelectContent>
                       </Select>
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="trafficModel"><Radio className="inline-block mr-2 h-4 w-4" /> Traffic Source</Label>
+                      <Select
+                        value={localData?.trafficModel || 'none'}
+                        onValueChange={(value) => handleSelectChange('trafficModel', value)}
+                        disabled={selectedNodeData?.isFailed}
+                      >
+                        <SelectTrigger id="trafficModel" className="w-full text-sm">
+                          <SelectValue placeholder="Select traffic model" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Flow rate (default)</SelectItem>
+                          <SelectItem value="cbr">Constant bit rate</SelectItem>
+                          <SelectItem value="poisson">Poisson arrivals</SelectItem>
+                          <SelectItem value="bursty">Bursty on/off (events)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">Shapes the packets of every flow this node originates in packet-level runs.</p>
+                    </div>
+                    {localData?.trafficModel && localData.trafficModel !== 'none' && (
+                      <div className="grid grid-cols-2 gap-2">
+                        <div className="space-y-2">
+                          <Label htmlFor="trafficRate" className="text-xs">{localData.trafficModel === 'bursty' ? 'Burst Rate (pkts/s)' : 'Rate (pkts/s)'}</Label>
+                          <Input
+                            id="trafficRate"
+                            type="number"
+                            value={localData?.trafficRate ?? simulationParams.packetRate}
+                            onChange={(e) => handleInputChange('trafficRate', Math.max(0.1, parseFloat(e.target.value) || 0.1))}
+                            min={0.1}
+                            step={0.1}
+                            className="text-sm"
+                            disabled={selectedNodeData?.isFailed}
+                          />
+                        </div>
+                        {localData.trafficModel === 'bursty' && (
+                          <>
+                            <div className="space-y-2">
+                              <Label htmlFor="burstOnMs" className="text-xs">Mean On (ms)</Label>
+                              <Input
+                                id="burstOnMs"
+                                type="number"
+                                value={localData?.burstOnMs ?? DEFAULT_BURST_ON_MS}
+                                onChange={(e) => handleInputChange('burstOnMs', Math.max(1, parseInt(e.target.value, 10) || 1))}
+                                min={1}
+                                className="text-sm"
+                                disabled={selectedNodeData?.isFailed}
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="burstOffMs" className="text-xs">Mean Off (ms)</Label>
+                              <Input
+                                id="burstOffMs"
+                                type="number"
+                                value={localData?.burstOffMs ?? DEFAULT_BURST_OFF_MS}
+                                onChange={(e) => handleInputChange('burstOffMs', Math.max(1, parseInt(e.target.value, 10) || 1))}
+                                min={1}
+                                className="text-sm"
+                                disabled={selectedNodeData?.isFailed}
+                              />
+                            </div>
+                          </>
+                        )}
+                      </div>
+                    )}
                     <div className="space-y-2">
                         <Button
                             onClick={() => toggleNodeFailState(selectedElement.id)}
@@ -169,6 +298,7 @@ export function Sidebar({}: SidebarProps) {
                             {selectedNodeData?.isFailed ? "Restore Node" : "Fail Node"}
                         </Button>
                     </div>
+                    <RoutingTableView nodeId={selectedElement.id} />
                   </>
                 )}
                  {isEdge && (
@@ -195,6 +325,33 @@ export function Sidebar({}: SidebarProps) {
                          className="text-sm"
                        />
                      </div>
+                     <div className="space-y-2">
+                       <Label htmlFor="harvestReward"><Leaf className="inline-block mr-2 h-4 w-4" /> Harvest Reward</Label>
+                       <Input
+                         id="harvestReward"
+                         type="number"
+                         value={localData?.harvestReward || 0}
+                         onChange={(e) => handleInputChange('harvestReward', parseInt(e.target.value, 10) || 0)}
+                         min={0}
+                         className="text-sm"
+                       />
+                       <p className="text-xs text-muted-foreground">Subtracted from latency in Bellman-Ford; rewards above the latency make the link cost negative.</p>
+                     </div>
+                     <div className="space-y-2">
+                       <Label htmlFor="packetErrorRate"><WifiOff className="inline-block mr-2 h-4 w-4" /> Packet Error Rate (%)</Label>
+                       <Input
+                         id="packetErrorRate"
+                         type="number"
+                         value={localData?.packetErrorRate !== undefined ? +(localData.packetErrorRate * 100).toFixed(2) : ''}
+                         onChange={(e) => handleInputChange('packetErrorRate', e.target.value === '' ? undefined : Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) / 100)}
+                         min={0}
+                         max={100}
+                         step={0.5}
+                         placeholder="Bit-error model"
+                         className="text-sm"
+                       />
+                       <p className="text-xs text-muted-foreground">Chance each transmission on this link is lost. Leave empty to derive it from the packet size.</p>
+                     </div>
                    </>
                  )}
               </div>
@@ -229,43 +386,281 @@ export function Sidebar({}: SidebarProps) {
                   <SelectItem value="dijkstra">Dijkstra</SelectItem>
                   <SelectItem value="bellman-ford">Bellman-Ford</SelectItem>
                   <SelectItem value="adaptive">Adaptive</SelectItem>
+                  <SelectItem value="link-state">Link-State (OLSR)</SelectItem>
+                  <SelectItem value="aodv">AODV (on-demand)</SelectItem>
                   <SelectItem value="compare">Compare All</SelectItem>
                 </SelectContent>
               </Select>
             </div>
-            <div className="space-y-2">
-               <Label htmlFor="sourceNode">Source Node</Label>
-               <Select
-                 value={simulationParams.sourceNode || ""}
-                 onValueChange={(value) => handleParamChange('sourceNode', value)}
-               >
-                 <SelectTrigger id="sourceNode" className="w-full text-sm">
-                   <SelectValue placeholder="Select source node" />
-                 </SelectTrigger>
-                 <SelectContent>
-                   {networkNodes.filter(node => !node.data.isFailed).map((node) => (
-                     <SelectItem key={node.id} value={node.id}>{node.data.label || node.id}</SelectItem>
-                   ))}
-                 </SelectContent>
-               </Select>
+             <div className="space-y-2">
+              <Label htmlFor="trafficPattern">Traffic Pattern</Label>
+              <Select
+                value={simulationParams.trafficPattern}
+                onValueChange={(value) => handleParamChange('trafficPattern', value)}
+              >
+                <SelectTrigger id="trafficPattern" className="w-full text-sm">
+                  <SelectValue placeholder="Select traffic pattern" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unicast">Unicast (source → target)</SelectItem>
+                  <SelectItem value="convergecast">Convergecast (sensors → gateway)</SelectItem>
+                </SelectContent>
+              </Select>
+              {simulationParams.trafficPattern === 'convergecast' && (
+                <p className="text-xs text-muted-foreground">Every active sensor sends to its cheapest reachable gateway at the packet rate and size below.</p>
+              )}
+            </div>
+            {simulationParams.trafficPattern === 'unicast' && (
+              <>
+                <div className="space-y-2">
+                   <Label htmlFor="sourceNode">Source Node</Label>
+                   <Select
+                     value={simulationParams.sourceNode || ""}
+                     onValueChange={(value) => handleParamChange('sourceNode', value)}
+                   >
+                     <SelectTrigger id="sourceNode" className="w-full text-sm">
+                       <SelectValue placeholder="Select source node" />
+                     </SelectTrigger>
+                     <SelectContent>
+                       {networkNodes.filter(node => !node.data.isFailed).map((node) => (
+                         <SelectItem key={node.id} value={node.id}>{node.data.label || node.id}</SelectItem>
+                       ))}
+                     </SelectContent>
+                   </Select>
+                 </div>
+                 <div className="space-y-2">
+                   <Label htmlFor="targetNode">Target Node</Label>
+                   <Select
+                     value={simulationParams.targetNode || ""}
+                     onValueChange={(value) => handleParamChange('targetNode', value)}
+                   >
+                     <SelectTrigger id="targetNode" className="w-full text-sm">
+                       <SelectValue placeholder="Select target node" />
+                     </SelectTrigger>
+                     <SelectContent>
+                        {networkNodes.filter(node => !node.data.isFailed).map((node) => (
+                         <SelectItem key={node.id} value={node.id}>{node.data.label || node.id}</SelectItem>
+                       ))}
+                     </SelectContent>
+                   </Select>
+                 </div>
+              </>
+            )}
+
+             <div className="space-y-2">
+              <Label htmlFor="simulationMode">Simulation Mode</Label>
+              <Select
+                value={simulationParams.simulationMode}
+                onValueChange={(value) => handleParamChange('simulationMode', value)}
+              >
+                <SelectTrigger id="simulationMode" className="w-full text-sm">
+                  <SelectValue placeholder="Select mode" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="analytic">Analytic (single packet)</SelectItem>
+                  <SelectItem value="packet">Packet-level (discrete-event)</SelectItem>
+                  <SelectItem value="lifetime">Lifetime (battery depletion)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {simulationParams.simulationMode === 'packet' && (
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="packetRate" className="text-xs">Rate (pkts/s)</Label>
+                  <Input
+                    id="packetRate"
+                    type="number"
+                    value={simulationParams.packetRate}
+                    onChange={(e) => handleParamChange('packetRate', Math.max(0.1, parseFloat(e.target.value) || 0.1))}
+                    min={0.1}
+                    step={0.1}
+                    className="text-sm"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="simulationDuration" className="text-xs">Duration (ms)</Label>
+                  <Input
+                    id="simulationDuration"
+                    type="number"
+                    value={simulationParams.simulationDuration}
+                    onChange={(e) => handleParamChange('simulationDuration', Math.max(1, parseInt(e.target.value, 10) || 1))}
+                    min={1}
+                    className="text-sm"
+                  />
+                </div>
+              </div>
+            )}
+            {simulationParams.simulationMode === 'lifetime' && (
+              <div className="space-y-2">
+                <Label htmlFor="deathThreshold">Dead-Node Threshold (%)</Label>
+                <Input
+                  id="deathThreshold"
+                  type="number"
+                  value={simulationParams.deathThreshold}
+                  onChange={(e) => handleParamChange('deathThreshold', Math.min(100, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                  min={1}
+                  max={100}
+                  className="text-sm"
+                />
+                <p className="text-xs text-muted-foreground">Rounds are counted until the first death, until this share of nodes has died, and until source and target disconnect.</p>
+              </div>
+            )}
+             <div className="space-y-2">
+               <Label htmlFor="packetSize"><Package className="inline-block mr-2 h-4 w-4" /> Packet Size (bytes)</Label>
+               <Input
+                 id="packetSize"
+                 type="number"
+                 value={simulationParams.packetSize}
+                 onChange={(e) => handleParamChange('packetSize', Math.max(1, parseInt(e.target.value, 10) || 1))}
+                 min={1}
+                 className="text-sm"
+               />
+             </div>
+             <div className="space-y-2">
+               <Label htmlFor="maxRetries"><RotateCcw className="inline-block mr-2 h-4 w-4" /> Max Retransmissions (ARQ)</Label>
+               <Input
+                 id="maxRetries"
+                 type="number"
+                 value={simulationParams.maxRetries}
+                 onChange={(e) => handleParamChange('maxRetries', Math.min(15, Math.max(0, parseInt(e.target.value, 10) || 0)))}
+                 min={0}
+                 max={15}
+                 className="text-sm"
+               />
+               <p className="text-xs text-muted-foreground">A packet lost on a link is resent up to this many times before it is dropped.</p>
+             </div>
+             <div className="space-y-2">
+               <Label htmlFor="seed">Random Seed</Label>
+               <div className="flex gap-2">
+                 <Input
+                   id="seed"
+                   type="number"
+                   value={simulationParams.seed}
+                   onChange={(e) => handleParamChange('seed', parseInt(e.target.value, 10) || 0)}
+                   min={0}
+                   className="text-sm"
+                 />
+                 <Button
+                   variant="outline"
+                   size="icon"
+                   onClick={() => handleParamChange('seed', generateSeed())}
+                   title="Randomize seed"
+                 >
+                   <Dices className="h-4 w-4" />
+                 </Button>
+               </div>
+               <p className="text-xs text-muted-foreground">Runs with the same seed and topology give identical results.</p>
              </div>
              <div className="space-y-2">
-               <Label htmlFor="targetNode">Target Node</Label>
-               <Select
-                 value={simulationParams.targetNode || ""}
-                 onValueChange={(value) => handleParamChange('targetNode', value)}
-               >
-                 <SelectTrigger id="targetNode" className="w-full text-sm">
-                   <SelectValue placeholder="Select target node" />
-                 </SelectTrigger>
-                 <SelectContent>
-                    {networkNodes.filter(node => !node.data.isFailed).map((node) => (
-                     <SelectItem key={node.id} value={node.id}>{node.data.label || node.id}</SelectItem>
-                   ))}
-                 </SelectContent>
-               </Select>
+               <Label htmlFor="replications"><Repeat className="inline-block mr-2 h-4 w-4" /> Replications (Monte Carlo)</Label>
+               <Input
+                 id="replications"
+                 type="number"
+                 value={simulationParams.replications}
+                 onChange={(e) => handleParamChange('replications', Math.min(100, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                 min={1}
+                 max={100}
+                 className="text-sm"
+               />
+               <p className="text-xs text-muted-foreground">Above 1, each algorithm runs once per seed from the seed above and metrics are reported as mean ± 95% confidence interval.</p>
              </div>
 
+            {simulationParams.trafficPattern === 'unicast' && (
+              <div className="space-y-3 border p-3 rounded-md bg-secondary/50">
+                <div className="flex justify-between items-center">
+                  <h4 className="font-medium text-sm"><Route className="inline-block mr-2 h-4 w-4" />Traffic Flows</h4>
+                  <Button variant="outline" size="sm" onClick={handleAddFlow}>
+                    <Plus className="mr-1 h-3 w-3" /> Add Flow
+                  </Button>
+                </div>
+                {simulationParams.flows.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No flows defined: the source and target above form a single flow. Added flows are routed together and contend for shared links and routers.</p>
+                ) : (
+                  simulationParams.flows.map((flow, idx) => (
+                    <div key={flow.id} className="space-y-2 border-t pt-2 first:border-t-0 first:pt-0">
+                      <div className="flex justify-between items-center">
+                        <span className="text-xs font-medium">Flow {idx + 1}</span>
+                        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleRemoveFlow(flow.id)} title="Remove flow">
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Select value={flow.source || ""} onValueChange={(value) => handleFlowChange(flow.id, { source: value })}>
+                          <SelectTrigger className="w-full text-xs h-8">
+                            <SelectValue placeholder="Source" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {networkNodes.filter(node => !node.data.isFailed).map((node) => (
+                              <SelectItem key={node.id} value={node.id}>{node.data.label || node.id}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select value={flow.target || ""} onValueChange={(value) => handleFlowChange(flow.id, { target: value })}>
+                          <SelectTrigger className="w-full text-xs h-8">
+                            <SelectValue placeholder="Destination" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {networkNodes.filter(node => !node.data.isFailed).map((node) => (
+                              <SelectItem key={node.id} value={node.id}>{node.data.label || node.id}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="grid grid-cols-3 gap-2">
+                        <div className="space-y-1">
+                          <Label htmlFor={`${flow.id}-rate`} className="text-xs">pkts/s</Label>
+                          <Input
+                            id={`${flow.id}-rate`}
+                            type="number"
+                            value={flow.rate}
+                            onChange={(e) => handleFlowChange(flow.id, { rate: Math.max(0.1, parseFloat(e.target.value) || 0.1) })}
+                            min={0.1}
+                            step={0.1}
+                            className="text-xs h-8"
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label htmlFor={`${flow.id}-size`} className="text-xs">Bytes</Label>
+                          <Input
+                            id={`${flow.id}-size`}
+                            type="number"
+                            value={flow.packetSize}
+                            onChange={(e) => handleFlowChange(flow.id, { packetSize: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                            min={1}
+                            className="text-xs h-8"
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs">Priority</Label>
+                          <Select value={flow.priority} onValueChange={(value) => handleFlowChange(flow.id, { priority: value as TrafficFlow['priority'] })}>
+                            <SelectTrigger className="w-full text-xs h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="high">High</SelectItem>
+                              <SelectItem value="normal">Normal</SelectItem>
+                              <SelectItem value="low">Low</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+
+            {simulationParams.trafficPattern === 'unicast' && (
+              <>
+                <AlternativePaths />
+                <MultipathRouting />
+              </>
+            )}
+
+            <DistanceVectorPanel />
+            <RplPanel />
+            <LeachPanel />
+
             {(simulationParams.algorithm === 'adaptive' || simulationParams.algorithm === 'compare') && (
               <div className="space-y-4 border p-3 rounded-md bg-secondary/50">
                  <h4 className="font-medium text-sm">Adaptive Algorithm Weights (α, β, γ)</h4>
@@ -313,6 +708,8 @@ export function Sidebar({}: SidebarProps) {
                  {Math.abs(totalWeight - 1) > 0.001 && (
                     <p className="text-xs text-destructive font-medium">Warning: Weights do not sum to 1.</p>
                  )}
+                 <WeightSweep />
+                 <WeightOptimizer />
               </div>
             )}
           </div>
@@ -0,0 +1,79 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useNetwork } from '@/context/network-context';
+import { Button } from './ui/button';
+import { Slider } from './ui/slider';
+import { Play, Pause, SkipBack, SkipForward, StepBack, StepForward } from 'lucide-react';
+
+const PLAYBACK_INTERVAL_MS = 150;
+
+export function SimulationTimeline() {
+  const { timeline, timelineIndex, setTimelineIndex } = useNetwork();
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const lastIndex = timeline ? timeline.length - 1 : 0;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (timelineIndex >= lastIndex) {
+      setIsPlaying(false);
+      return;
+    }
+    const timeout = setTimeout(() => setTimelineIndex(prev => prev + 1), PLAYBACK_INTERVAL_MS);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, timelineIndex, lastIndex, setTimelineIndex]);
+
+  // A new run (or a reset) stops playback.
+  useEffect(() => {
+    setIsPlaying(false);
+  }, [timeline]);
+
+  if (!timeline || timeline.length === 0) return null;
+
+  const currentFrame = timeline[Math.min(timelineIndex, lastIndex)];
+
+  const handlePlayPause = () => {
+    if (!isPlaying && timelineIndex >= lastIndex) setTimelineIndex(0);
+    setIsPlaying(prev => !prev);
+  };
+
+  const step = (delta: number) => {
+    setIsPlaying(false);
+    setTimelineIndex(prev => Math.min(lastIndex, Math.max(0, prev + delta)));
+  };
+
+  return (
+    <div className="flex items-center gap-2 border-t px-4 py-2 bg-card">
+      <Button variant="ghost" size="icon" onClick={() => step(-lastIndex)} title="Jump to start">
+        <SkipBack className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={() => step(-1)} title="Step back">
+        <StepBack className="h-4 w-4" />
+      </Button>
+      <Button variant="outline" size="icon" onClick={handlePlayPause} title={isPlaying ? 'Pause' : 'Play'}>
+        {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      </Button>
+      <Button variant="ghost" size="icon" onClick={() => step(1)} title="Step forward">
+        <StepForward className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={() => step(lastIndex)} title="Jump to end">
+        <SkipForward className="h-4 w-4" />
+      </Button>
+      <Slider
+        min={0}
+        max={lastIndex}
+        step={1}
+        value={[Math.min(timelineIndex, lastIndex)]}
+        onValueChange={(value) => {
+          setIsPlaying(false);
+          setTimelineIndex(value[0]);
+        }}
+        className="flex-1 [&>span]:h-1 [&_[role=slider]]:h-3 [&_[role=slider]]:w-3"
+      />
+      <span className="text-xs text-muted-foreground w-36 text-right tabular-nums">
+        {currentFrame.label} ({timelineIndex + 1}/{timeline.length})
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useNetwork } from '@/context/network-context';
+import { Button } from './ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Wand2 } from 'lucide-react';
+import { HIGHER_IS_BETTER, type MetricKey } from '@/lib/weight-sweep';
+import { METRIC_LABELS } from './weight-sweep';
+import { MAX_LIFETIME_ROUNDS } from '@/lib/lifetime-simulator';
+
+export function WeightOptimizer() {
+  const { weightOptimization, optimizeAdaptiveWeights } = useNetwork();
+  const [objective, setObjective] = useState<MetricKey>('networkLifetime');
+  const [latencyCeiling, setLatencyCeiling] = useState('');
+
+  const change = (before: number, after: number) => {
+    if (!Number.isFinite(before) || !Number.isFinite(after) || before === 0) return '';
+    const percent = ((after - before) / Math.abs(before)) * 100;
+    return ` (${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%)`;
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-3">
+      <h4 className="font-medium text-sm">Optimize Weights</h4>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs">{HIGHER_IS_BETTER[objective] ? 'Maximize' : 'Minimize'}</Label>
+          <Select value={objective} onValueChange={(value) => setObjective(value as MetricKey)}>
+            <SelectTrigger className="w-full text-xs h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(METRIC_LABELS) as MetricKey[]).map(key => (
+                <SelectItem key={key} value={key}>{METRIC_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="latencyCeiling" className="text-xs">Latency ≤ (ms)</Label>
+          <Input
+            id="latencyCeiling"
+            type="number"
+            value={latencyCeiling}
+            onChange={(e) => setLatencyCeiling(e.target.value)}
+            min={0}
+            placeholder="No limit"
+            className="text-xs h-8"
+          />
+        </div>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full"
+        onClick={() => optimizeAdaptiveWeights({
+          objective,
+          latencyCeiling: latencyCeiling === '' ? null : Math.max(0, parseFloat(latencyCeiling) || 0),
+        })}
+      >
+        <Wand2 className="mr-2 h-4 w-4" /> Optimize
+      </Button>
+
+      {weightOptimization && (
+        <div className="text-xs text-muted-foreground space-y-0.5">
+          <p>
+            {METRIC_LABELS[weightOptimization.objective]}: {weightOptimization.initial.metrics[weightOptimization.objective].toFixed(2)} → {weightOptimization.best.metrics[weightOptimization.objective].toFixed(2)}
+            {change(weightOptimization.initial.metrics[weightOptimization.objective], weightOptimization.best.metrics[weightOptimization.objective])}
+          </p>
+          <p>
+            Latency (ms): {weightOptimization.initial.metrics.averageLatency.toFixed(2)} → {weightOptimization.best.metrics.averageLatency.toFixed(2)}
+            {weightOptimization.latencyCeiling !== null && ` (ceiling ${weightOptimization.latencyCeiling})`}
+          </p>
+          <p>
+            Weights: α {weightOptimization.initial.weights.alpha.toFixed(2)}, β {weightOptimization.initial.weights.beta.toFixed(2)}, γ {weightOptimization.initial.weights.gamma.toFixed(2)} → α {weightOptimization.best.weights.alpha.toFixed(2)}, β {weightOptimization.best.weights.beta.toFixed(2)}, γ {weightOptimization.best.weights.gamma.toFixed(2)}
+          </p>
+          {!weightOptimization.best.feasible && (
+            <p className="text-destructive font-medium">No weighting meets the latency ceiling; weights left unchanged.</p>
+          )}
+          {weightOptimization.roundLimitedPoints > 0 && (
+            <p>{weightOptimization.roundLimitedPoints} weightings stopped at the {MAX_LIFETIME_ROUNDS}-round limit and were left out of the lifetime objective.</p>
+          )}
+          <p>{weightOptimization.evaluations} simulation runs.</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useNetwork } from '@/context/network-context';
+import { Button } from './ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Grid3x3 } from 'lucide-react';
+import { bestSweepPoint, isComparable, HIGHER_IS_BETTER, type MetricKey, type AdaptiveWeights } from '@/lib/weight-sweep';
+import { MAX_LIFETIME_ROUNDS } from '@/lib/lifetime-simulator';
+
+export const METRIC_LABELS: Record<MetricKey, string> = {
+  energyConsumption: 'Energy (µJ)',
+  averageLatency: 'Latency (ms)',
+  deliveryRatio: 'Delivery ratio',
+  networkLifetime: 'Lifetime',
+};
+
+// Ternary plot geometry: α at the top, β bottom-left, γ bottom-right.
+const WIDTH = 260;
+const HEIGHT = 236;
+const CORNERS = { alpha: [130, 18], beta: [14, 218], gamma: [246, 218] } as const;
+
+const toPoint = ({ alpha, beta, gamma }: AdaptiveWeights): [number, number] => [
+  alpha * CORNERS.alpha[0] + beta * CORNERS.beta[0] + gamma * CORNERS.gamma[0],
+  alpha * CORNERS.alpha[1] + beta * CORNERS.beta[1] + gamma * CORNERS.gamma[1],
+];
+
+// Red (worst) through yellow to green (best).
+const heatColor = (score: number) => `hsl(${Math.round(score * 120)}, 75%, 45%)`;
+
+export function WeightSweep() {
+  const { weightSweep, runWeightSweep, simulationParams, setSimulationParams } = useNetwork();
+  const [step, setStep] = useState('0.1');
+  const [metric, setMetric] = useState<MetricKey>('energyConsumption');
+
+  const values = weightSweep?.points.filter(point => isComparable(point, metric)).map(point => point.metrics[metric]) ?? [];
+  const roundLimited = weightSweep?.points.filter(point => point.roundLimited).length ?? 0;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const best = weightSweep ? bestSweepPoint(weightSweep, metric) : undefined;
+  const radius = weightSweep ? Math.max(3, (CORNERS.gamma[0] - CORNERS.beta[0]) * weightSweep.step / 2 - 1) : 0;
+
+  const scoreOf = (value: number) => {
+    if (max === min) return 1;
+    const normalized = (value - min) / (max - min);
+    return HIGHER_IS_BETTER[metric] ? normalized : 1 - normalized;
+  };
+
+  const isCurrent = (weights: AdaptiveWeights) =>
+    Math.abs(weights.alpha - simulationParams.weights.alpha) < 1e-6 &&
+    Math.abs(weights.beta - simulationParams.weights.beta) < 1e-6 &&
+    Math.abs(weights.gamma - simulationParams.weights.gamma) < 1e-6;
+
+  return (
+    <div className="space-y-3 border-t pt-3">
+      <h4 className="font-medium text-sm">Weight Sweep</h4>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs">Grid step</Label>
+          <Select value={step} onValueChange={setStep}>
+            <SelectTrigger className="w-full text-xs h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="0.2">0.2 (21 runs)</SelectItem>
+              <SelectItem value="0.1">0.1 (66 runs)</SelectItem>
+              <SelectItem value="0.05">0.05 (231 runs)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Metric</Label>
+          <Select value={metric} onValueChange={(value) => setMetric(value as MetricKey)}>
+            <SelectTrigger className="w-full text-xs h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(METRIC_LABELS) as MetricKey[]).map(key => (
+                <SelectItem key={key} value={key}>{METRIC_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <Button variant="outline" size="sm" className="w-full" onClick={() => runWeightSweep(parseFloat(step))}>
+        <Grid3x3 className="mr-2 h-4 w-4" /> Run Sweep
+      </Button>
+
+      {weightSweep && (
+        <div className="space-y-1">
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+            <polygon
+              points={[CORNERS.alpha, CORNERS.beta, CORNERS.gamma].map(corner => corner.join(',')).join(' ')}
+              fill="none"
+              stroke="hsl(var(--border))"
+            />
+            <text x={CORNERS.alpha[0]} y={CORNERS.alpha[1] - 6} textAnchor="middle" fontSize={11} fill="hsl(var(--foreground))">α = 1</text>
+            <text x={CORNERS.beta[0]} y={CORNERS.beta[1] + 14} textAnchor="start" fontSize={11} fill="hsl(var(--foreground))">β = 1</text>
+            <text x={CORNERS.gamma[0]} y={CORNERS.gamma[1] + 14} textAnchor="end" fontSize={11} fill="hsl(var(--foreground))">γ = 1</text>
+            {weightSweep.points.map(point => {
+              const [x, y] = toPoint(point.weights);
+              const value = point.metrics[metric];
+              const comparable = isComparable(point, metric);
+              const { alpha, beta, gamma } = point.weights;
+              return (
+                <circle
+                  key={`${alpha}-${beta}-${gamma}`}
+                  cx={x}
+                  cy={y}
+                  r={radius}
+                  fill={comparable ? heatColor(scoreOf(value)) : 'hsl(var(--muted))'}
+                  stroke={point === best ? 'hsl(var(--foreground))' : isCurrent(point.weights) ? 'hsl(var(--accent))' : 'none'}
+                  strokeWidth={2}
+                  className="cursor-pointer"
+                  onClick={() => setSimulationParams(prev => ({ ...prev, weights: { ...point.weights } }))}
+                >
+                  <title>{`α ${alpha.toFixed(2)} · β ${beta.toFixed(2)} · γ ${gamma.toFixed(2)}: ${Number.isFinite(value) ? value.toFixed(3) : 'no route'}${point.roundLimited ? ` (stopped at ${MAX_LIFETIME_ROUNDS} rounds)` : ''}`}</title>
+                </circle>
+              );
+            })}
+          </svg>
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span style={{ color: heatColor(0) }}>worst {values.length ? (HIGHER_IS_BETTER[metric] ? min : max).toFixed(2) : '—'}</span>
+            <span style={{ color: heatColor(1) }}>best {values.length ? (HIGHER_IS_BETTER[metric] ? max : min).toFixed(2) : '—'}</span>
+          </div>
+          {roundLimited > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {roundLimited} of {weightSweep.points.length} points stopped at the {MAX_LIFETIME_ROUNDS}-round limit{metric === 'networkLifetime' && '; their lifetime may be only a lower bound and is left out (grey)'}.
+            </p>
+          )}
+          {best && (
+            <p className="text-xs text-muted-foreground">
+              Best {METRIC_LABELS[metric].toLowerCase()} at α {best.weights.alpha.toFixed(2)}, β {best.weights.beta.toFixed(2)}, γ {best.weights.gamma.toFixed(2)} (outlined). Click a point to use its weights.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
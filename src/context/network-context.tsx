@@ -17,6 +17,29 @@ import {
 } from 'reactflow';
 import { useToast } from '@/hooks/use-toast';
 import { exampleScenarios } from '@/lib/example-scenarios';
+import { simulateReplications, type RoutingAlgorithm } from '@/lib/simulation';
+import type { PacketTrace } from '@/lib/packet-simulator';
+import type { LifetimeReport } from '@/lib/lifetime-simulator';
+import type { LinkStateReport } from '@/lib/link-state';
+import type { AodvReport, AodvRouteCache } from '@/lib/aodv';
+import type { NodeQueueState } from '@/lib/metrics-model';
+import type { MetricStats } from '@/lib/statistics';
+import { runWeightSweep as sweepWeights, type WeightSweepResult } from '@/lib/weight-sweep';
+import { optimizeWeights, type OptimizationGoal, type WeightOptimizationResult } from '@/lib/weight-optimizer';
+import { findParetoPaths, type ParetoPath } from '@/lib/pareto';
+import { findKShortestPaths, rankingFor } from '@/lib/k-shortest-paths';
+import type { PathResult } from '@/lib/routing';
+import {
+  initDistanceVector,
+  stepDistanceVector,
+  runDistanceVectorToConvergence,
+  type DistanceVectorState,
+  type DistanceVectorVariant,
+} from '@/lib/distance-vector';
+import { runLeachComparison, type LeachResult } from '@/lib/leach';
+import { buildDodag, localRepair, globalRepair, type RplObjective, type RplState } from '@/lib/rpl';
+import { analyzeMultipath, type DisjointMode, type MultipathStrategy, type MultipathResult } from '@/lib/multipath';
+import { buildPacketTimeline, buildLifetimeTimeline, buildLinkStateTimeline, buildAodvTimeline, type TimelineFrame } from '@/lib/timeline';
 
 // Define types for network elements and simulation
 export interface NodeData {
@@ -27,16 +50,33 @@ export interface NodeData {
   role: 'sensor' | 'router' | 'gateway';
   isSelected?: boolean;
   isFailed?: boolean;
+  bufferCapacity?: number; // Packets the buffer can hold, including the one being sent (default 50)
+  serviceRate?: number; // Packets per second the node can process; unset means only airtime limits it
+  trafficModel?: 'none' | 'cbr' | 'poisson' | 'bursty'; // Generator for flows this node originates; 'none' uses the flow's rate
+  trafficRate?: number; // Packets per second (while on, for bursty sources)
+  burstOnMs?: number; // Mean event duration of a bursty source
+  burstOffMs?: number; // Mean quiet time between events of a bursty source
 }
 
 export interface EdgeData {
   latency: number;
   bandwidth: number;
+  harvestReward?: number; // Energy-harvesting credit subtracted from the link cost (Bellman-Ford)
+  packetErrorRate?: number; // Probability (0–1) a single transmission is lost; unset uses the default bit error rate
   isSelected?: boolean;
 }
 
+export interface TrafficFlow {
+  id: string;
+  source: string;
+  target: string;
+  rate: number; // Packets per second
+  packetSize: number; // Bytes
+  priority: 'low' | 'normal' | 'high';
+}
+
 export interface SimulationParams {
-  algorithm: 'dijkstra' | 'bellman-ford' | 'adaptive' | 'compare';
+  algorithm: 'dijkstra' | 'bellman-ford' | 'adaptive' | 'link-state' | 'aodv' | 'compare';
   sourceNode: string | null;
   targetNode: string | null;
   weights: {
@@ -44,18 +84,60 @@ export interface SimulationParams {
     beta: number;  // battery
     gamma: number; // queueSize
   };
+  seed: number; // Seeds the simulation PRNG so runs are reproducible
+  packetSize: number; // Bytes per data packet, drives the radio energy and airtime model
+  simulationMode: 'analytic' | 'packet' | 'lifetime';
+  packetRate: number; // Packets per second injected at the source (packet mode)
+  simulationDuration: number; // ms of simulated time sources keep injecting (packet mode)
+  deathThreshold: number; // % of nodes that must die to end the network's lifetime (lifetime mode)
+  flows: TrafficFlow[]; // When non-empty, replaces the single source → target pair
+  trafficPattern: 'unicast' | 'convergecast'; // Convergecast: every sensor reports to its cheapest gateway
+  maxRetries: number; // ARQ retransmissions per hop before a lost packet is dropped
+  replications: number; // Monte Carlo runs per algorithm, with seeds seed, seed + 1, …
 }
 
 export interface PerformanceMetricsData {
-  energyConsumption: number;
-  averageLatency: number;
-  deliveryRatio: number;
-  networkLifetime: number;
+  energyConsumption: number; // µJ per packet, summed over all hops
+  averageLatency: number; // ms end to end
+  deliveryRatio: number; // 0..1
+  networkLifetime: number; // Packets (rounds) until the first node on the path is depleted
+}
+
+export interface FlowResult {
+  flowId: string;
+  source: string;
+  target: string;
+  path: string[];
+  pathCost?: number;
+  metrics: PerformanceMetricsData;
+}
+
+export interface ConvergecastSummary {
+  treeDepth: number; // Hops of the longest sensor → gateway route
+  gatewayLoad: Record<string, number>; // Sensors served by each active gateway
+  orphanedSensors: string[]; // Active sensors with no route to any gateway
+}
+
+export interface BatchStatistics {
+  replications: number;
+  seeds: number[];
+  metrics: Record<keyof PerformanceMetricsData, MetricStats>;
 }
 
 export interface SimulationResult {
   algorithm: string;
   path: string[];
+  pathCost?: number; // Total routing cost of `path` under the algorithm's own metric
+  negativeCycle?: string[]; // Set instead of a path when Bellman-Ford finds a negative cycle
+  seed: number;
+  packetTrace?: PacketTrace; // Present for packet-level runs; metrics are derived from it
+  lifetime?: LifetimeReport; // Present for battery-depletion runs
+  flowResults?: FlowResult[]; // Per-flow breakdown for the flow table or convergecast; `metrics` is the aggregate
+  convergecast?: ConvergecastSummary;
+  queues?: Record<string, NodeQueueState>; // M/M/1/K state of each forwarding node (analytic runs)
+  batch?: BatchStatistics; // Present for batch runs; `metrics` then holds the means
+  linkState?: LinkStateReport; // Control traffic of the link-state protocol run
+  aodv?: AodvReport; // Route discoveries, route errors and their control traffic
   metrics: PerformanceMetricsData;
 }
 
@@ -73,7 +155,32 @@ interface NetworkContextType {
   simulationParams: SimulationParams;
   setSimulationParams: React.Dispatch<React.SetStateAction<SimulationParams>>;
   simulationResults: SimulationResult[] | null;
+  timeline: TimelineFrame[] | null; // Playback frames for the displayed result of a time-based run
+  timelineIndex: number;
+  setTimelineIndex: React.Dispatch<React.SetStateAction<number>>;
   runSimulation: () => void;
+  weightSweep: WeightSweepResult | null; // Adaptive metrics over the α/β/γ simplex
+  runWeightSweep: (step: number) => void;
+  weightOptimization: WeightOptimizationResult | null; // Last optimizer run; its best weights were applied
+  optimizeAdaptiveWeights: (goal: OptimizationGoal) => void;
+  paretoFront: ParetoPath[] | null; // Non-dominated source → target routes of the last single-pair run
+  highlightPath: (path: string[]) => void;
+  alternativePaths: PathResult[] | null; // K cheapest loopless source → target paths under the selected algorithm's cost
+  findAlternativePaths: (k: number) => void;
+  previewPath: string[] | null; // Drawn over the canvas in its own colour while hovered
+  setPreviewPath: React.Dispatch<React.SetStateAction<string[] | null>>;
+  multipath: MultipathResult | null; // Disjoint paths drawn together on the canvas, one colour each
+  runMultipathAnalysis: (mode: DisjointMode, strategy: MultipathStrategy) => void;
+  distanceVector: DistanceVectorState | null; // Live protocol run; survives node failures so they can be watched
+  startDistanceVector: (variant: DistanceVectorVariant) => void;
+  advanceDistanceVector: (untilConverged: boolean) => void;
+  rpl: RplState | null; // DODAG toward the gateways; kept through node failures until repaired
+  buildRpl: (objective: RplObjective) => void;
+  repairRpl: (kind: 'local' | 'global') => void;
+  leach: LeachResult | null; // LEACH against flat routing on the current batteries
+  leachRound: number; // Index into `leach.clusters` whose membership colours the canvas
+  setLeachRound: React.Dispatch<React.SetStateAction<number>>;
+  runLeach: (headFraction: number) => void;
   clearNetwork: () => void;
   loadExample: (data: { nodes: Node<NodeData>[], edges: Edge<EdgeData>[] }) => void;
   deleteSelectedElement: () => void;
@@ -96,68 +203,12 @@ const initialEdges: Edge<EdgeData>[] = exampleScenarios[0].data.edges.map(e => (
     animated: false,
 }));
 
+// Properties routing depends on; saving a change to any of them ends the protocol runs.
+const ROUTING_NODE_FIELDS: (keyof NodeData)[] = ['isFailed', 'role'];
+const ROUTING_EDGE_FIELDS: (keyof EdgeData)[] = ['latency', 'bandwidth', 'packetErrorRate', 'harvestReward'];
 
-// Helper function for BFS pathfinding - respects failed nodes and edge direction
-const findPathBFS = (
-  sourceId: string,
-  targetId: string,
-  allNodes: Node<NodeData>[],
-  allEdges: Edge<EdgeData>[]
-): string[] => {
-  if (!sourceId || !targetId) return [];
-  if (sourceId === targetId) return [sourceId];
-
-  const sourceNodeDetails = allNodes.find(n => n.id === sourceId);
-  const targetNodeDetails = allNodes.find(n => n.id === targetId);
-
-  // Check if source or target itself is failed
-  if (sourceNodeDetails?.data.isFailed || targetNodeDetails?.data.isFailed) {
-    return [];
-  }
-
-  const adj: Record<string, string[]> = {};
-  const validNodes = allNodes.filter(node => !node.data.isFailed);
-  const validNodeIds = new Set(validNodes.map(n => n.id));
-
-  if (!validNodeIds.has(sourceId) || !validNodeIds.has(targetId)) {
-    return [];
-  }
-
-  validNodes.forEach(node => adj[node.id] = []);
-
-  allEdges.forEach(edge => {
-    // Ensure both source and target of the edge are valid (not failed)
-    const sourceIsValid = validNodeIds.has(edge.source);
-    const targetIsValid = validNodeIds.has(edge.target);
-
-    if (sourceIsValid && targetIsValid) {
-        // Strictly directed: only add edge.source -> edge.target
-        if (!adj[edge.source]) adj[edge.source] = [];
-        adj[edge.source].push(edge.target);
-    }
-  });
-
-  const queue: string[][] = [[sourceId]];
-  const visited = new Set<string>([sourceId]);
-
-  while (queue.length > 0) {
-    const currentPath = queue.shift()!;
-    const currentNodeId = currentPath[currentPath.length - 1];
-
-    if (currentNodeId === targetId) {
-      return currentPath;
-    }
-
-    (adj[currentNodeId] || []).forEach(neighborId => {
-      if (!visited.has(neighborId)) {
-        visited.add(neighborId);
-        const newPath = [...currentPath, neighborId];
-        queue.push(newPath);
-      }
-    });
-  }
-  return []; // No path found
-};
+const changesRouting = <T extends object>(current: T | undefined, changes: Partial<T>, fields: (keyof T)[]) =>
+  fields.some(field => field in changes && changes[field] !== current?.[field]);
 
 
 export const NetworkProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -169,8 +220,31 @@ export const NetworkProvider: React.FC<{ children: React.ReactNode }> = ({ child
     sourceNode: initialNodes.length > 0 ? initialNodes[0].id : null,
     targetNode: initialNodes.length > 1 ? initialNodes[initialNodes.length - 1].id : initialNodes.length > 0 ? initialNodes[0].id : null,
     weights: { alpha: 0.4, beta: 0.3, gamma: 0.3 },
+    seed: 42, // Fixed default keeps server and client renders in sync; users can re-roll it
+    packetSize: 128,
+    simulationMode: 'analytic',
+    packetRate: 20,
+    simulationDuration: 5000,
+    deathThreshold: 50,
+    flows: [],
+    trafficPattern: 'unicast',
+    maxRetries: 3,
+    replications: 1,
   });
   const [simulationResults, setSimulationResults] = useState<SimulationResult[] | null>(null);
+  const [timeline, setTimeline] = useState<TimelineFrame[] | null>(null);
+  const [timelineIndex, setTimelineIndex] = useState<number>(0);
+  const [weightSweep, setWeightSweep] = useState<WeightSweepResult | null>(null);
+  const [weightOptimization, setWeightOptimization] = useState<WeightOptimizationResult | null>(null);
+  const [paretoFront, setParetoFront] = useState<ParetoPath[] | null>(null);
+  const [alternativePaths, setAlternativePaths] = useState<PathResult[] | null>(null);
+  const [previewPath, setPreviewPath] = useState<string[] | null>(null);
+  const [multipath, setMultipath] = useState<MultipathResult | null>(null);
+  const [distanceVector, setDistanceVector] = useState<DistanceVectorState | null>(null);
+  const [rpl, setRpl] = useState<RplState | null>(null);
+  const [leach, setLeach] = useState<LeachResult | null>(null);
+  const [leachRound, setLeachRound] = useState<number>(0);
+  const [aodvRoutes, setAodvRoutes] = useState<AodvRouteCache>({}); // Kept across runs so AODV meets its broken routes
   const { toast } = useToast();
 
   const [matrixSize, setMatrixSize] = useState<number>(3);
@@ -216,7 +290,25 @@ export const NetworkProvider: React.FC<{ children: React.ReactNode }> = ({ child
   }, [nodes, simulationParams.sourceNode, simulationParams.targetNode, setSimulationParams]);
 
 
+  // Any reset of the results also ends playback.
+  useEffect(() => {
+    if (!simulationResults) {
+      setTimeline(null);
+      setTimelineIndex(0);
+    }
+  }, [simulationResults]);
+
+
+  // Protocol runs keep per-node state, so they end when the topology is replaced or edited
+  // in a way routing depends on; labels and other cosmetic edits leave them running.
+  const resetProtocolRuns = useCallback(() => {
+    setDistanceVector(null);
+    setRpl(null);
+    setAodvRoutes({});
+  }, []);
+
   const updateNodeData = useCallback((nodeId: string, data: Partial<NodeData>) => {
+    const routingChanged = changesRouting(nodes.find(n => n.id === nodeId)?.data, data, ROUTING_NODE_FIELDS);
     setNodes((nds) =>
       nds.map((node) =>
         node.id === nodeId ? { ...node, data: { ...node.data, ...data } } : node
@@ -225,9 +317,11 @@ export const NetworkProvider: React.FC<{ children: React.ReactNode }> = ({ child
     if (selectedElement && 'position' in selectedElement && selectedElement.id === nodeId) {
       setSelectedElement(prev => prev ? {...prev, data: {...prev.data, ...data}} : null);
     }
-  }, [setNodes, selectedElement]);
+    if (routingChanged) resetProtocolRuns();
+  }, [nodes, setNodes, selectedElement, resetProtocolRuns]);
 
   const updateEdgeData = useCallback((edgeId: string, data: Partial<EdgeData>) => {
+    const routingChanged = changesRouting(edges.find(e => e.id === edgeId)?.data, data, ROUTING_EDGE_FIELDS);
     setEdges((eds) =>
       eds.map((edge) =>
         edge.id === edgeId ? { ...edge, data: { ...edge.data, ...data } } : edge
@@ -236,7 +330,8 @@ export const NetworkProvider: React.FC<{ children: React.ReactNode }> = ({ child
      if (selectedElement && !('position' in selectedElement) && selectedElement.id === edgeId) {
       setSelectedElement(prev => prev ? {...prev, data: {...prev.data, ...data}} : null);
     }
-  }, [setEdges, selectedElement]);
+    if (routingChanged) resetProtocolRuns();
+  }, [edges, setEdges, selectedElement, resetProtocolRuns]);
 
   const clearVisualPath = useCallback(() => {
     setEdges(eds => eds.map(e => ({
@@ -249,6 +344,13 @@ export const NetworkProvider: React.FC<{ children: React.ReactNode }> = ({ child
   const handleSimulationStateChange = useCallback((messageTitle: string, messageDescription: string, variant: 'default' | 'destructive' = 'default') => {
     clearVisualPath();
     setSimulationResults(null);
+    setWeightSweep(null);
+    setWeightOptimization(null);
+    setParetoFront(null);
+    setAlternativePaths(null);
+    setPreviewPath(null);
+    setMultipath(null);
+    setLeach(null);
     toast({ title: messageTitle, description: messageDescription, variant });
   }, [clearVisualPath, toast, setSimulationResults]);
 
@@ -265,21 +367,24 @@ export const NetworkProvider: React.FC<{ children: React.ReactNode }> = ({ child
     const nodeNowFailed = !nodes.find(n => n.id === nodeId)?.data.isFailed; // State after toggle
     handleSimulationStateChange(
       'Node State Changed',
-      `Node ${nodeLabel} is now ${nodeNowFailed ? 'FAILED' : 'RESTORED'}. Run simulation to see updated paths.`,
+      `Node ${nodeLabel} is now ${nodeNowFailed ? 'FAILED' : 'RESTORED'}. ${distanceVector
+        ? 'Step the distance-vector run to watch the routes react.'
+        : rpl ? 'Repair the DODAG to route around it.' : 'Run simulation to see updated paths.'}`,
       nodeNowFailed ? 'destructive' : 'default'
     );
     if (selectedElement && 'position' in selectedElement && selectedElement.id === nodeId) {
       setSelectedElement(prev => prev ? {...prev, data: {...prev.data, isFailed: nodeNowFailed}} : null);
     }
-  }, [nodes, setNodes, handleSimulationStateChange, selectedElement]);
+  }, [nodes, setNodes, handleSimulationStateChange, selectedElement, distanceVector, rpl]);
 
 
   const clearNetwork = useCallback(() => {
     setNodes([]);
     setEdges([]);
     setSelectedElement(null);
+    resetProtocolRuns();
     handleSimulationStateChange('Network Cleared', 'Canvas has been reset.');
-  }, [setNodes, setEdges, handleSimulationStateChange]);
+  }, [setNodes, setEdges, handleSimulationStateChange, resetProtocolRuns]);
 
   const loadExample = useCallback((data: { nodes: Node<NodeData>[], edges: Edge<EdgeData>[] }) => {
      const typedNodes = data.nodes.map(n => ({ ...n, type: 'custom', data: {...n.data, isFailed: n.data.isFailed || false} }));
@@ -293,8 +398,9 @@ export const NetworkProvider: React.FC<{ children: React.ReactNode }> = ({ child
     setNodes(typedNodes);
     setEdges(styledMarkedEdges);
     setSelectedElement(null);
+    resetProtocolRuns();
     handleSimulationStateChange('Example Loaded', 'Network topology updated. Run simulation to see paths.');
-  }, [setNodes, setEdges, handleSimulationStateChange]);
+  }, [setNodes, setEdges, handleSimulationStateChange, resetProtocolRuns]);
 
 
   const deleteSelectedElement = useCallback(() => {
@@ -309,8 +415,9 @@ export const NetworkProvider: React.FC<{ children: React.ReactNode }> = ({ child
       setEdges((eds) => eds.filter((edge) => edge.id !== selectedElement.id));
     }
     setSelectedElement(null);
+    resetProtocolRuns();
     handleSimulationStateChange('Element Deleted', 'Network updated. Run simulation to see new paths.');
-  }, [selectedElement, setNodes, setEdges, toast, handleSimulationStateChange]);
+  }, [selectedElement, setNodes, setEdges, toast, handleSimulationStateChange, resetProtocolRuns]);
 
   const generateNetworkFromMatrix = useCallback((matrixStr: string, numNodes: number) => {
     if (numNodes <= 0) {
@@ -383,14 +490,44 @@ export const NetworkProvider: React.FC<{ children: React.ReactNode }> = ({ child
     setNodes(newGeneratedNodes);
     setEdges(newGeneratedEdges);
     setSelectedElement(null);
+    resetProtocolRuns();
     handleSimulationStateChange('Network Generated', `${numNodes} nodes and ${newGeneratedEdges.length} edges created. Run simulation.`);
-  }, [setNodes, setEdges, setSelectedElement, toast, handleSimulationStateChange]);
+  }, [setNodes, setEdges, setSelectedElement, toast, handleSimulationStateChange, resetProtocolRuns]);
 
 
   const runSimulation = useCallback(() => {
-    const { sourceNode: sourceId, targetNode: targetId, algorithm, weights } = simulationParams;
+    const { sourceNode: sourceId, targetNode: targetId, algorithm, weights, seed, flows: flowTable, trafficPattern } = simulationParams;
+    const isConvergecast = trafficPattern === 'convergecast';
+    const usesFlowTable = !isConvergecast && flowTable.length > 0;
+    const usesPair = !isConvergecast && !usesFlowTable;
+
+    if (isConvergecast) {
+        const activeNodes = nodes.filter(n => !n.data.isFailed);
+        const missingRole = !activeNodes.some(n => n.data.role === 'sensor') ? 'sensor' : !activeNodes.some(n => n.data.role === 'gateway') ? 'gateway' : null;
+        if (missingRole) {
+            toast({ title: 'Simulation Error', description: `Convergecast needs at least one active ${missingRole} node.`, variant: 'destructive' });
+            setSimulationResults(null);
+            clearVisualPath();
+            return;
+        }
+    }
 
-     if (!sourceId || !targetId) {
+    if (usesFlowTable) {
+        const nodeLabel = (id: string) => nodes.find(n => n.id === id)?.data.label || id;
+        const invalidFlow = flowTable.find(flow => {
+            const flowSource = nodes.find(n => n.id === flow.source);
+            const flowTarget = nodes.find(n => n.id === flow.target);
+            return !flowSource || !flowTarget || flow.source === flow.target || flowSource.data.isFailed || flowTarget.data.isFailed;
+        });
+        if (invalidFlow) {
+            toast({ title: 'Simulation Error', description: `Flow ${nodeLabel(invalidFlow.source)} → ${nodeLabel(invalidFlow.target)} needs two distinct, active nodes.`, variant: 'destructive' });
+            setSimulationResults(null);
+            clearVisualPath();
+            return;
+        }
+    }
+
+     if (usesPair && (!sourceId || !targetId)) {
        toast({ title: 'Simulation Error', description: 'Please select source and target nodes.', variant: 'destructive' });
        setSimulationResults(null);
        clearVisualPath();
@@ -400,30 +537,35 @@ export const NetworkProvider: React.FC<{ children: React.ReactNode }> = ({ child
      const sourceNodeDetails = nodes.find(n => n.id === sourceId);
      const targetNodeDetails = nodes.find(n => n.id === targetId);
 
-     if (sourceNodeDetails?.data.isFailed) {
+     if (usesPair && sourceNodeDetails?.data.isFailed) {
         toast({ title: 'Simulation Error', description: 'Source node has failed. Cannot run simulation.', variant: 'destructive' });
         setSimulationResults(null);
         clearVisualPath();
         return;
      }
-     if (targetNodeDetails?.data.isFailed) {
+     if (usesPair && targetNodeDetails?.data.isFailed) {
         toast({ title: 'Simulation Error', description: 'Target node has failed. Cannot run simulation.', variant: 'destructive' });
         setSimulationResults(null);
         clearVisualPath();
         return;
      }
 
-    if (sourceId === targetId && nodes.filter(n=>!n.data.isFailed).length >= 1) {
+    if (usesPair && sourceId && sourceId === targetId && nodes.filter(n=>!n.data.isFailed).length >= 1) {
         const selfPathResult: SimulationResult = {
             algorithm: algorithm === 'compare' ? 'adaptive' : algorithm, // Default to adaptive for display in compare
             path: [sourceId],
+            pathCost: 0,
+            seed,
             metrics: { energyConsumption: 0, averageLatency: 0, deliveryRatio: 1, networkLifetime: 500 }
         };
         setSimulationResults(algorithm === 'compare' ? [
             {...selfPathResult, algorithm: 'dijkstra'},
             {...selfPathResult, algorithm: 'bellman-ford'},
             {...selfPathResult, algorithm: 'adaptive'},
+            {...selfPathResult, algorithm: 'link-state'},
+            {...selfPathResult, algorithm: 'aodv'},
         ] : [selfPathResult]);
+        setParetoFront(null);
         clearVisualPath(); // Clear any previous path highlights
         // No edges to highlight for a self-path
         toast({ title: 'Simulation Complete', description: `Source and target are the same node: ${sourceNodeDetails?.data.label || sourceId}.` });
@@ -440,163 +582,33 @@ export const NetworkProvider: React.FC<{ children: React.ReactNode }> = ({ child
         }
     }
 
-    const algorithmsToRun = algorithm === 'compare'
-        ? ['dijkstra', 'bellman-ford', 'adaptive']
+    const algorithmsToRun: RoutingAlgorithm[] = algorithm === 'compare'
+        ? ['dijkstra', 'bellman-ford', 'adaptive', 'link-state', 'aodv']
         : [algorithm];
 
-    const results: SimulationResult[] = algorithmsToRun.map(algo => {
-        let currentMockPath: string[] = [];
-
-        // Ensure we use the current state of nodes and edges
-        const currentNodes = nodes;
-        const currentEdges = edges;
-
-        if (algo === 'adaptive') {
-            let bestAdaptivePath: string[] = [];
-            let minCost = Infinity;
-
-            // 1. Check direct path S -> T
-            const directEdge = currentEdges.find(edge =>
-                edge.source === sourceId && edge.target === targetId &&
-                !currentNodes.find(n => n.id === edge.source)?.data.isFailed &&
-                !currentNodes.find(n => n.id === edge.target)?.data.isFailed
-            );
-
-            if (directEdge?.data) {
-                const sourceNodeData = currentNodes.find(n => n.id === sourceId)?.data;
-                if (sourceNodeData) { // Needed for perceived values, though not directly used for 1-hop cost here
-                     minCost = (directEdge.data.latency * weights.alpha); // Simplified cost for direct
-                     bestAdaptivePath = [sourceId, targetId];
-                }
-            }
-
-            // 2. Check 2-hop paths S -> I -> T
-            const intermediateNodeCandidates = currentNodes.filter(node =>
-                node.id !== sourceId && node.id !== targetId && !node.data.isFailed
-            );
-
-            for (const intermediateNode of intermediateNodeCandidates) {
-                const edge1 = currentEdges.find(e =>
-                    e.source === sourceId && e.target === intermediateNode.id &&
-                    !currentNodes.find(n => n.id === e.source)?.data.isFailed &&
-                    !currentNodes.find(n => n.id === e.target)?.data.isFailed
-                );
-                const edge2 = currentEdges.find(e =>
-                    e.source === intermediateNode.id && e.target === targetId &&
-                    !currentNodes.find(n => n.id === e.source)?.data.isFailed &&
-                    !currentNodes.find(n => n.id === e.target)?.data.isFailed
-                );
-
-                if (edge1?.data && edge2?.data && intermediateNode?.data) {
-                    const perceivedBattery = Math.max(0, Math.min(100, intermediateNode.data.battery - Math.floor(Math.random() * 5) + 2)); // Slight random variance
-                    const perceivedQueueSize = Math.max(0, intermediateNode.data.queueSize + Math.floor(Math.random() * 6) - 3); // Slight random variance
-
-                    const pathLatency = (edge1.data.latency + edge2.data.latency);
-                    const latencyCost = weights.alpha * pathLatency;
-                    const batteryUnhealthiness = 100 - perceivedBattery;
-                    const batteryCost = weights.beta * batteryUnhealthiness;
-                    const queueCost = weights.gamma * perceivedQueueSize;
-                    const totalCost = latencyCost + batteryCost + queueCost;
-
-                    if (totalCost < minCost) {
-                        minCost = totalCost;
-                        bestAdaptivePath = [sourceId, intermediateNode.id, targetId];
-                    }
-                }
-            }
-            currentMockPath = bestAdaptivePath;
-            if (currentMockPath.length === 0 && sourceId !== targetId) { // Fallback to BFS if no 1 or 2-hop path found
-                currentMockPath = findPathBFS(sourceId, targetId, currentNodes, currentEdges);
-            }
-        } else { // Dijkstra, Bellman-Ford (simplified mock)
-            // 1. Check direct path S -> T
-            const directEdge = currentEdges.find(edge =>
-                edge.source === sourceId && edge.target === targetId &&
-                !currentNodes.find(n => n.id === edge.source)?.data.isFailed &&
-                !currentNodes.find(n => n.id === edge.target)?.data.isFailed
-            );
-            if (directEdge) {
-                 currentMockPath = [sourceId, targetId];
-            } else {
-                // 2. Check 2-hop paths S -> I -> T
-                let foundTwoHop = false;
-                const intermediateNodeCandidates = currentNodes.filter(node =>
-                    node.id !== sourceId && node.id !== targetId && !node.data.isFailed
-                );
-                for (const intermediateNode of intermediateNodeCandidates) {
-                    const edge1Exists = currentEdges.some(edge =>
-                        edge.source === sourceId && edge.target === intermediateNode.id &&
-                        !currentNodes.find(n => n.id === edge.source)?.data.isFailed &&
-                        !currentNodes.find(n => n.id === edge.target)?.data.isFailed
-                    );
-                    const edge2Exists = currentEdges.some(edge =>
-                        edge.source === intermediateNode.id && edge.target === targetId &&
-                        !currentNodes.find(n => n.id === edge.source)?.data.isFailed &&
-                        !currentNodes.find(n => n.id === edge.target)?.data.isFailed
-                    );
-                    if (edge1Exists && edge2Exists) {
-                        currentMockPath = [sourceId, intermediateNode.id, targetId];
-                        foundTwoHop = true;
-                        break;
-                    }
-                }
-                if (!foundTwoHop && sourceId !== targetId) { // Fallback to BFS
-                    currentMockPath = findPathBFS(sourceId, targetId, currentNodes, currentEdges);
-                }
-            }
-        }
-
-        let energyFactor = 1;
-        let latencyFactor = 1;
-        let deliveryFactor = 1;
-        let lifetimeFactor = 1;
-
-        if (algo === 'dijkstra') {
-            latencyFactor = 0.8; energyFactor = 1.1; deliveryFactor = 0.95; lifetimeFactor = 0.9;
-        } else if (algo === 'bellman-ford') {
-            latencyFactor = 1.2; energyFactor = 1.0; deliveryFactor = 0.9; lifetimeFactor = 0.85;
-        } else if (algo === 'adaptive') {
-             const pathLatencySum = currentMockPath.length > 1 ?
-                currentMockPath.slice(0, -1).reduce((acc, curr, idx) => {
-                    const nextNodeId = currentMockPath[idx+1];
-                    const edge = currentEdges.find(e => e.source === curr && e.target === nextNodeId);
-                    return acc + (edge?.data?.latency || 30); // Use a default if edge not found (should not happen with BFS)
-                }, 0)
-                : 0;
-             const avgPathLatency = pathLatencySum / Math.max(1, currentMockPath.length - 1);
-             latencyFactor = Math.max(0.1, avgPathLatency / 20); // Normalize based on avg latency
-             energyFactor = 1.0 - (weights.beta * 0.2) + (weights.gamma * 0.1);
-             deliveryFactor = Math.min(1.0, 0.9 + (weights.alpha * 0.05) - (weights.gamma * 0.1));
-             lifetimeFactor = 0.85 + (weights.beta * 0.25);
-        }
-
-        const pathLength = currentMockPath.length > 0 ? Math.max(0, currentMockPath.length -1) : 0;
-        const baseEnergyPerHop = 10;
-        const baseLatencyPerHop = 15;
-        const noPathExists = currentMockPath.length === 0 && sourceId !== targetId;
-
-        return {
-            algorithm: algo,
-            path: currentMockPath,
-            metrics: {
-                energyConsumption: noPathExists ? Infinity : (pathLength === 0 ? 0 : Math.max(5, (baseEnergyPerHop * pathLength + Math.random() * 20) * energyFactor)),
-                averageLatency: noPathExists ? Infinity : (pathLength === 0 ? 0 : Math.max(5, (baseLatencyPerHop * pathLength + Math.random() * 10) * latencyFactor)),
-                deliveryRatio: noPathExists ? 0 : (pathLength === 0 ? 1 : Math.min(1, Math.max(0, (0.85 + Math.random() * 0.15) * deliveryFactor))),
-                networkLifetime: noPathExists ? 0 : (pathLength === 0 ? 500 : Math.max(10, Math.floor((300 + Math.random() * 100) * lifetimeFactor / Math.max(1,pathLength)))),
-            },
-        };
-    });
+    // Each algorithm gets its own generator from the same seed, so a 'compare' run
+    // reproduces the numbers of the individual runs.
+    const results: SimulationResult[] = algorithmsToRun.map(algo =>
+        simulateReplications(algo, nodes, edges, simulationParams, aodvRoutes)
+    );
+    const aodvResult = results.find(r => r.aodv);
+    if (aodvResult) setAodvRoutes(aodvResult.aodv!.routes);
+    const batch = results[0]?.batch;
+    const seedDescription = batch ? `${batch.replications} runs (seeds ${batch.seeds[0]}–${batch.seeds[batch.seeds.length - 1]})` : `seed ${seed}`;
 
     setSimulationResults(results);
+    setMultipath(null); // The canvas switches back to the simulated routes
+    setParetoFront(usesPair && sourceId && targetId ? findParetoPaths(sourceId, targetId, nodes, edges, simulationParams.packetSize, simulationParams.maxRetries) : null);
 
     const chosenAlgorithmForDisplay = algorithm === 'compare' ? 'adaptive' : algorithm;
     const resultForDisplay = results.find(r => r.algorithm === chosenAlgorithmForDisplay) || results[0];
     const pathEdgesToHighlight = new Set<string>();
 
-     if (resultForDisplay && resultForDisplay.path.length > 1) {
-        for (let i = 0; i < resultForDisplay.path.length - 1; i++) {
-            const pathSource = resultForDisplay.path[i];
-            const pathTarget = resultForDisplay.path[i+1];
+    const displayedPaths = resultForDisplay?.flowResults?.map(flowResult => flowResult.path) ?? [resultForDisplay?.path ?? []];
+    displayedPaths.filter(path => path.length > 1).forEach(path => {
+        for (let i = 0; i < path.length - 1; i++) {
+            const pathSource = path[i];
+            const pathTarget = path[i+1];
             // For highlighting, we find the edge regardless of its original direction if it connects the two path nodes
             // However, the path itself was determined by directed logic.
             const edge = edges.find(e => (e.source === pathSource && e.target === pathTarget)); // Strict direction for finding the edge to highlight
@@ -604,28 +616,252 @@ export const NetworkProvider: React.FC<{ children: React.ReactNode }> = ({ child
                 pathEdgesToHighlight.add(edge.id);
             }
         }
-     }
+    });
+
+    // A packet-level run leaves its backlog behind: the queues as they stood when the sources
+    // stopped, not after the drain, become the nodes' queue sizes.
+    const queueSizesAtDuration = resultForDisplay?.packetTrace?.queueSizesAtDuration;
+    if (queueSizesAtDuration) {
+        setNodes(nds => nds.map(n => n.id in queueSizesAtDuration ? { ...n, data: { ...n.data, queueSize: queueSizesAtDuration[n.id] } } : n));
+        setSelectedElement(prev => prev && 'position' in prev && prev.id in queueSizesAtDuration
+            ? { ...prev, data: { ...prev.data, queueSize: queueSizesAtDuration[prev.id] } }
+            : prev);
+    }
+    const queueNote = queueSizesAtDuration ? ` Queue sizes now show the occupancy at ${simulationParams.simulationDuration} ms.` : '';
+
+    if (resultForDisplay?.packetTrace) {
+        setTimeline(buildPacketTimeline(resultForDisplay.packetTrace, nodes, edges));
+    } else if (resultForDisplay?.lifetime) {
+        setTimeline(buildLifetimeTimeline(resultForDisplay.lifetime, edges));
+    } else if (resultForDisplay?.linkState) {
+        setTimeline(buildLinkStateTimeline(resultForDisplay.linkState));
+    } else if (resultForDisplay?.aodv) {
+        setTimeline(buildAodvTimeline(resultForDisplay.aodv));
+    } else {
+        setTimeline(null);
+    }
+    setTimelineIndex(0);
+
+    const cycleEdgesToHighlight = new Set<string>();
+    const negativeCycle = resultForDisplay?.negativeCycle;
+    if (negativeCycle) {
+        for (let i = 0; i < negativeCycle.length - 1; i++) {
+            const edge = edges.find(e => e.source === negativeCycle[i] && e.target === negativeCycle[i + 1]);
+            if (edge) {
+                cycleEdgesToHighlight.add(edge.id);
+            }
+        }
+    }
 
     setEdges(eds => eds.map(e => ({
         ...e,
         style: {
-             stroke: pathEdgesToHighlight.has(e.id) ? 'hsl(var(--accent))' : 'hsl(var(--primary))',
-             strokeWidth: pathEdgesToHighlight.has(e.id) ? 3 : 2,
+             stroke: cycleEdgesToHighlight.has(e.id) ? 'hsl(var(--destructive))' : pathEdgesToHighlight.has(e.id) ? 'hsl(var(--accent))' : 'hsl(var(--primary))',
+             strokeWidth: pathEdgesToHighlight.has(e.id) || cycleEdgesToHighlight.has(e.id) ? 3 : 2,
         },
-        animated: pathEdgesToHighlight.has(e.id),
+        animated: pathEdgesToHighlight.has(e.id) || cycleEdgesToHighlight.has(e.id),
     })));
 
-    const pathFoundForDisplay = resultForDisplay && resultForDisplay.path.length > 0;
     const displayedAlgoName = resultForDisplay?.algorithm || chosenAlgorithmForDisplay;
 
+    if (negativeCycle) {
+        const cycleLabels = negativeCycle.map(id => nodes.find(n => n.id === id)?.data.label || id);
+        toast({
+          title: 'Negative Cycle Detected',
+          description: `${displayedAlgoName} found a negative-cost cycle: ${cycleLabels.join(' → ')}. No shortest path is defined.`,
+          variant: 'destructive'
+        });
+        return;
+    }
+
+    const tree = resultForDisplay?.convergecast;
+    if (tree) {
+        const reachingSensors = Object.values(tree.gatewayLoad).reduce((sum, load) => sum + load, 0);
+        toast({
+          title: 'Simulation Complete',
+          description: `Routing tree for ${displayedAlgoName} built with ${seedDescription}: ${reachingSensors} sensors reach a gateway, ${tree.orphanedSensors.length} orphaned.${queueNote}`,
+          variant: reachingSensors > 0 ? 'default' : 'destructive'
+        });
+        return;
+    }
+
+    const pathFoundForDisplay = resultForDisplay && resultForDisplay.path.length > 0;
+
     toast({
       title: 'Simulation Complete',
       description: pathFoundForDisplay
-        ? `Results generated. Displaying path for ${displayedAlgoName}.`
+        ? `Results generated with ${seedDescription}. Displaying path for ${displayedAlgoName}.${queueNote}`
         : `No path found for ${displayedAlgoName} from ${sourceNodeDetails?.data.label || sourceId} to ${targetNodeDetails?.data.label || targetId}.`,
        variant: pathFoundForDisplay ? 'default' : 'destructive'
     });
-  }, [nodes, edges, simulationParams, setEdges, toast, setSimulationResults, clearVisualPath]);
+  }, [nodes, edges, simulationParams, aodvRoutes, setNodes, setEdges, toast, setSimulationResults, clearVisualPath]);
+
+  const runWeightSweep = useCallback((step: number) => {
+    const { sourceNode, targetNode, flows, trafficPattern } = simulationParams;
+    if (trafficPattern === 'unicast' && flows.length === 0 && (!sourceNode || !targetNode || sourceNode === targetNode)) {
+      toast({ title: 'Sweep Error', description: 'Please select two distinct source and target nodes.', variant: 'destructive' });
+      return;
+    }
+    const sweep = sweepWeights(nodes, edges, simulationParams, step);
+    if (sweep.points.every(point => point.metrics.deliveryRatio === 0)) {
+      toast({ title: 'Sweep Error', description: 'No weighting finds a route for the current traffic.', variant: 'destructive' });
+      setWeightSweep(null);
+      return;
+    }
+    setWeightSweep(sweep);
+    toast({ title: 'Sweep Complete', description: `Adaptive routing evaluated at ${sweep.points.length} weightings.` });
+  }, [nodes, edges, simulationParams, toast]);
+
+  const optimizeAdaptiveWeights = useCallback((goal: OptimizationGoal) => {
+    const { sourceNode, targetNode, flows, trafficPattern } = simulationParams;
+    if (trafficPattern === 'unicast' && flows.length === 0 && (!sourceNode || !targetNode || sourceNode === targetNode)) {
+      toast({ title: 'Optimization Error', description: 'Please select two distinct source and target nodes.', variant: 'destructive' });
+      return;
+    }
+    const result = optimizeWeights(nodes, edges, simulationParams, goal);
+    setWeightOptimization(result);
+    if (!result.best.feasible) {
+      toast({ title: 'Optimization Failed', description: `No weighting keeps average latency under ${goal.latencyCeiling} ms.`, variant: 'destructive' });
+      return;
+    }
+    setSimulationParams(prev => ({ ...prev, weights: result.best.weights }));
+    const { alpha, beta, gamma } = result.best.weights;
+    toast({
+      title: 'Weights Optimized',
+      description: `α ${alpha.toFixed(2)}, β ${beta.toFixed(2)}, γ ${gamma.toFixed(2)} applied after ${result.evaluations} runs.`,
+    });
+  }, [nodes, edges, simulationParams, toast]);
+
+  const findAlternativePaths = useCallback((k: number) => {
+    const { sourceNode, targetNode, algorithm, weights } = simulationParams;
+    if (!sourceNode || !targetNode || sourceNode === targetNode) {
+      toast({ title: 'Path Query Error', description: 'Please select two distinct source and target nodes.', variant: 'destructive' });
+      return;
+    }
+    const paths = findKShortestPaths(sourceNode, targetNode, nodes, edges, k, rankingFor(algorithm, weights));
+    setAlternativePaths(paths);
+    setPreviewPath(null);
+    if (paths.length === 0) {
+      toast({ title: 'No Path Found', description: 'Target is unreachable from the source.', variant: 'destructive' });
+      return;
+    }
+    toast({
+      title: 'Alternative Paths Found',
+      description: paths.length < k ? `Only ${paths.length} loopless paths exist.` : `Top ${k} loopless paths listed.`,
+    });
+  }, [nodes, edges, simulationParams, toast]);
+
+  const runMultipathAnalysis = useCallback((mode: DisjointMode, strategy: MultipathStrategy) => {
+    const { sourceNode, targetNode } = simulationParams;
+    if (!sourceNode || !targetNode || sourceNode === targetNode) {
+      toast({ title: 'Multipath Error', description: 'Please select two distinct source and target nodes.', variant: 'destructive' });
+      return;
+    }
+    const result = analyzeMultipath(nodes, edges, simulationParams, mode, strategy);
+    if (result.routes.length === 0) {
+      setMultipath(null);
+      toast({ title: 'No Path Found', description: 'Target is unreachable from the source.', variant: 'destructive' });
+      return;
+    }
+    setMultipath(result);
+    const gain = result.deliveryGain * 100;
+    toast({
+      title: 'Multipath Analysis Complete',
+      description: `${result.routes.length} ${mode}-disjoint ${result.routes.length === 1 ? 'path' : 'paths'}; ${strategy === 'split' ? 'splitting' : 'duplicating'} traffic changes delivery by ${gain >= 0 ? '+' : ''}${gain.toFixed(2)} points.`,
+    });
+  }, [nodes, edges, simulationParams, toast]);
+
+  const startDistanceVector = useCallback((variant: DistanceVectorVariant) => {
+    if (!nodes.some(n => !n.data.isFailed)) {
+      toast({ title: 'Protocol Error', description: 'The network has no active nodes.', variant: 'destructive' });
+      return;
+    }
+    setDistanceVector(initDistanceVector(nodes, variant));
+  }, [nodes, toast]);
+
+  const advanceDistanceVector = useCallback((untilConverged: boolean) => {
+    if (!distanceVector) return;
+    const next = untilConverged
+      ? runDistanceVectorToConvergence(distanceVector, nodes, edges)
+      : stepDistanceVector(distanceVector, nodes, edges);
+    setDistanceVector(next);
+    if (untilConverged && !next.converged) {
+      toast({
+        title: 'Not Converged',
+        description: `Routes were still changing after ${next.round} rounds.`,
+        variant: 'destructive',
+      });
+    }
+  }, [distanceVector, nodes, edges, toast]);
+
+  const buildRpl = useCallback((objective: RplObjective) => {
+    if (!nodes.some(n => n.data.role === 'gateway' && !n.data.isFailed)) {
+      toast({ title: 'Protocol Error', description: 'RPL needs at least one active gateway as DODAG root.', variant: 'destructive' });
+      return;
+    }
+    const dodag = buildDodag(nodes, edges, objective);
+    setRpl(dodag);
+    toast({
+      title: 'DODAG Built',
+      description: `${Object.keys(dodag.ranks).length} nodes joined with ${dodag.history[0].dioMessages} DIOs${dodag.detached.length > 0 ? `; ${dodag.detached.length} cannot reach a gateway` : ''}.`,
+    });
+  }, [nodes, edges, toast]);
+
+  const repairRpl = useCallback((kind: 'local' | 'global') => {
+    if (!rpl) return;
+    if (kind === 'global' && !nodes.some(n => n.data.role === 'gateway' && !n.data.isFailed)) {
+      toast({ title: 'Protocol Error', description: 'Global repair needs an active gateway to issue the new version.', variant: 'destructive' });
+      return;
+    }
+    const repaired = kind === 'local' ? localRepair(rpl, nodes, edges) : globalRepair(rpl, nodes, edges);
+    setRpl(repaired);
+    const event = repaired.history[repaired.history.length - 1];
+    toast({
+      title: kind === 'local' ? 'Local Repair Done' : `Global Repair Done (version ${repaired.version})`,
+      description: `${event.parentChanges} parent changes, ${event.dioMessages} DIOs; ${repaired.detached.length} detached.`,
+      variant: repaired.detached.length > 0 ? 'destructive' : 'default',
+    });
+  }, [rpl, nodes, edges, toast]);
+
+  const runLeach = useCallback((headFraction: number) => {
+    const activeNodes = nodes.filter(n => !n.data.isFailed);
+    const missingRole = !activeNodes.some(n => n.data.role === 'sensor') ? 'sensor' : !activeNodes.some(n => n.data.role === 'gateway') ? 'gateway' : null;
+    if (missingRole) {
+      toast({ title: 'Clustering Error', description: `LEACH needs at least one active ${missingRole} node.`, variant: 'destructive' });
+      return;
+    }
+    if (!(headFraction > 0 && headFraction <= 1)) {
+      toast({ title: 'Clustering Error', description: 'The cluster-head fraction must be between 0 and 1.', variant: 'destructive' });
+      return;
+    }
+    const result = runLeachComparison(nodes, edges, simulationParams, headFraction);
+    setLeach(result);
+    setLeachRound(0);
+    const firstDeath = (round: number | null) => round === null ? 'none' : `round ${round}`;
+    toast({
+      title: 'LEACH Comparison Complete',
+      description: `First sensor death: ${firstDeath(result.leach.firstDeathRound)} with LEACH vs ${firstDeath(result.flat.firstDeathRound)} flat; data flowed for ${result.leach.lastRound} vs ${result.flat.lastRound} rounds.`,
+    });
+  }, [nodes, edges, simulationParams, toast]);
+
+  // Shows a single route on the canvas in place of the simulated one, e.g. a Pareto point.
+  const highlightPath = useCallback((path: string[]) => {
+    const highlighted = new Set<string>();
+    for (let i = 0; i < path.length - 1; i++) {
+      const edge = edges.find(e => e.source === path[i] && e.target === path[i + 1]);
+      if (edge) {
+        highlighted.add(edge.id);
+      }
+    }
+    setEdges(eds => eds.map(e => ({
+        ...e,
+        style: {
+             stroke: highlighted.has(e.id) ? 'hsl(var(--accent))' : 'hsl(var(--primary))',
+             strokeWidth: highlighted.has(e.id) ? 3 : 2,
+        },
+        animated: highlighted.has(e.id),
+    })));
+  }, [edges, setEdges]);
 
 
   return (
@@ -644,7 +880,32 @@ export const NetworkProvider: React.FC<{ children: React.ReactNode }> = ({ child
         simulationParams,
         setSimulationParams,
         simulationResults,
+        timeline,
+        timelineIndex,
+        setTimelineIndex,
         runSimulation,
+        weightSweep,
+        runWeightSweep,
+        weightOptimization,
+        optimizeAdaptiveWeights,
+        paretoFront,
+        highlightPath,
+        alternativePaths,
+        findAlternativePaths,
+        previewPath,
+        setPreviewPath,
+        multipath,
+        runMultipathAnalysis,
+        distanceVector,
+        startDistanceVector,
+        advanceDistanceVector,
+        rpl,
+        buildRpl,
+        repairRpl,
+        leach,
+        leachRound,
+        setLeachRound,
+        runLeach,
         clearNetwork,
         loadExample,
         deleteSelectedElement,
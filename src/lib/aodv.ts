@@ -0,0 +1,209 @@
+import type { Node, Edge } from 'reactflow';
+import type { NodeData, EdgeData, SimulationParams } from '@/context/network-context';
+import { MinPriorityQueue } from '@/lib/priority-queue';
+import { bytesToBits, pathEdges, transmissionTimeMs } from '@/lib/metrics-model';
+import {
+  controlNeighbours,
+  broadcastReceptions,
+  unicastReception,
+  type ControlLinks,
+  type ControlTransmission,
+} from '@/lib/control-plane';
+
+// Message sizes from RFC 3561, without the IP/UDP headers.
+export const RREQ_BYTES = 24;
+export const RREP_BYTES = 20;
+export const RERR_BYTES = 12; // One unreachable destination listed
+const MAX_RECORDED_TRANSMISSIONS = 2000; // Kept for the timeline replay
+
+// Active routes by "source>target"; they outlive a run so the next one can
+// find out that a node on them has failed.
+export type AodvRouteCache = Record<string, string[]>;
+
+export interface AodvDiscovery {
+  source: string;
+  target: string;
+  path: string[]; // Empty when the target could not be reached
+  startedAt: number; // ms
+  latencyMs: number | null; // RREQ out until the RREP is back; null if no RREP came
+  rreqBroadcasts: number;
+  rrepMessages: number; // One per hop back to the source
+}
+
+export interface AodvRouteError {
+  source: string;
+  target: string;
+  brokenAt: string; // First failed node on the cached route
+  detectedBy: string; // Node upstream of it, whose retransmissions went unanswered
+  detectionMs: number;
+  rerrMessages: number; // One per hop back to the source
+  repairMs: number | null; // Until the new route is known; null if none was found
+}
+
+export interface AodvReport {
+  discoveries: AodvDiscovery[];
+  routeErrors: AodvRouteError[];
+  cachedRoutes: number; // Routes served from the cache without signalling
+  rreqBroadcasts: number;
+  rrepMessages: number;
+  rerrMessages: number;
+  controlBytes: number;
+  signalingEnergy: number; // µJ spent sending and receiving control traffic
+  averageDiscoveryMs: number | null; // Over the discoveries that found a route
+  transmissions: ControlTransmission[];
+  routes: AodvRouteCache; // Active routes at the end of the run
+}
+
+export interface AodvSession {
+  route: (sourceId: string, targetId: string, nodes: Node<NodeData>[], edges: Edge<EdgeData>[]) => string[];
+  report: () => AodvReport;
+}
+
+const routeKey = (sourceId: string, targetId: string) => `${sourceId}>${targetId}`;
+
+// Reactive on-demand routing, AODV style. A route is only looked for when a
+// flow needs one: the source broadcasts an RREQ, every node rebroadcasts the
+// first copy it hears and points its reverse route at whoever sent it, and
+// the target answers that first copy with an RREP unicast back along the
+// reverse pointers. Copies heard over a link that cannot carry data forward
+// are ignored, as AODV blacklists unidirectional links. Routes are kept in
+// `cache` while their nodes stay up. When one has failed, the node before it
+// gives up after its retries, sends an RERR back to the source and the source
+// discovers a new route. Messages take each link's latency plus airtime and
+// are assumed not to be lost.
+export const createAodvSession = (
+  cache: AodvRouteCache,
+  params: Pick<SimulationParams, 'packetSize' | 'maxRetries'>
+): AodvSession => {
+  const routes: AodvRouteCache = { ...cache };
+  const discoveries: AodvDiscovery[] = [];
+  const routeErrors: AodvRouteError[] = [];
+  const transmissions: ControlTransmission[] = [];
+  let cachedRoutes = 0;
+  let rerrMessages = 0;
+  let controlBytes = 0;
+  let signalingEnergy = 0;
+
+  const record = (transmission: ControlTransmission, bytes: number, energy: number) => {
+    controlBytes += bytes;
+    signalingEnergy += energy;
+    if (transmissions.length < MAX_RECORDED_TRANSMISSIONS) transmissions.push(transmission);
+  };
+
+  // Unicasts `kind` hop by hop along `hops`, returning the arrival time at the last node.
+  const unicastAlong = (kind: ControlTransmission['kind'], origin: string, hops: string[], neighbours: ControlLinks, bytes: number, sentAt: number) => {
+    let time = sentAt;
+    for (let i = 0; i < hops.length - 1; i++) {
+      if (!neighbours.get(hops[i])?.has(hops[i + 1])) break; // Link lost on the way back
+      const { reception, energy } = unicastReception(hops[i], hops[i + 1], neighbours, bytesToBits(bytes), time);
+      record({ kind, origin, sender: hops[i], sentAt: time, receptions: [reception] }, bytes, energy);
+      time = reception.arrivedAt;
+    }
+    return time;
+  };
+
+  const discover = (sourceId: string, targetId: string, nodes: Node<NodeData>[], edges: Edge<EdgeData>[], startedAt: number): AodvDiscovery => {
+    const neighbours = controlNeighbours(nodes, edges);
+    const dataLinks = new Set(edges.filter(e => (e.data?.bandwidth ?? 0) > 0).map(e => routeKey(e.source, e.target)));
+    const discovery: AodvDiscovery = { source: sourceId, target: targetId, path: [], startedAt, latencyMs: null, rreqBroadcasts: 0, rrepMessages: 0 };
+    discoveries.push(discovery);
+    if (!neighbours.has(sourceId) || !neighbours.has(targetId)) return discovery;
+
+    const reverse = new Map<string, string | null>([[sourceId, null]]);
+    const events = new MinPriorityQueue<{ nodeId: string; sender: string }>();
+    const rebroadcast = (sender: string, time: number) => {
+      const { receptions, energy } = broadcastReceptions(sender, neighbours, bytesToBits(RREQ_BYTES), time);
+      record({ kind: 'rreq', origin: sourceId, sender, sentAt: time, receptions }, RREQ_BYTES, energy);
+      discovery.rreqBroadcasts++;
+      receptions.forEach(reception => events.push({ nodeId: reception.nodeId, sender }, reception.arrivedAt));
+    };
+    rebroadcast(sourceId, startedAt);
+
+    let reachedAt: number | null = null;
+    while (!events.isEmpty()) {
+      const { value: { nodeId, sender }, priority: time } = events.pop()!;
+      if (reverse.has(nodeId) || !dataLinks.has(routeKey(sender, nodeId))) continue; // Duplicate or unidirectional
+      reverse.set(nodeId, sender);
+      if (nodeId === targetId) reachedAt = time;
+      else rebroadcast(nodeId, time);
+    }
+    if (reachedAt === null) return discovery;
+
+    const path = [targetId];
+    while (path[path.length - 1] !== sourceId) path.push(reverse.get(path[path.length - 1])!);
+    const rrepArrival = unicastAlong('rrep', targetId, path, neighbours, RREP_BYTES, reachedAt);
+    path.reverse();
+    discovery.path = path;
+    discovery.rrepMessages = path.length - 1;
+    discovery.latencyMs = rrepArrival - startedAt;
+    return discovery;
+  };
+
+  const route = (sourceId: string, targetId: string, nodes: Node<NodeData>[], edges: Edge<EdgeData>[]): string[] => {
+    const key = routeKey(sourceId, targetId);
+    const cached = routes[key];
+    delete routes[key];
+    const failed = new Set(nodes.filter(n => n.data.isFailed).map(n => n.id));
+    if (failed.has(sourceId)) return [];
+    if (!cached) {
+      const discovery = discover(sourceId, targetId, nodes, edges, 0);
+      if (discovery.path.length > 0) routes[key] = discovery.path;
+      return discovery.path;
+    }
+
+    const brokenIdx = cached.findIndex(id => failed.has(id));
+    const hops = pathEdges(cached, edges);
+    if (brokenIdx < 0 && hops) {
+      cachedRoutes++;
+      routes[key] = cached;
+      return cached;
+    }
+    if (brokenIdx < 0) {
+      // A link of the route was removed: the source notices at its next send.
+      const discovery = discover(sourceId, targetId, nodes, edges, 0);
+      if (discovery.path.length > 0) routes[key] = discovery.path;
+      return discovery.path;
+    }
+
+    // The upstream node sends, waits out every retransmission, then reports back.
+    const detectedBy = cached[brokenIdx - 1];
+    const brokenLink = edges.find(e => e.source === detectedBy && e.target === cached[brokenIdx]);
+    const bandwidth = brokenLink?.data?.bandwidth ?? 0;
+    const attemptMs = (brokenLink?.data?.latency ?? 0) + (bandwidth > 0 ? transmissionTimeMs(bytesToBits(params.packetSize), bandwidth) : 0);
+    const detectionMs = (params.maxRetries + 1) * attemptMs;
+    const upstream = cached.slice(0, brokenIdx).reverse();
+    const rerrArrival = unicastAlong('rerr', cached[brokenIdx], upstream, controlNeighbours(nodes, edges), RERR_BYTES, detectionMs);
+    const rediscovery = discover(sourceId, targetId, nodes, edges, rerrArrival);
+    routeErrors.push({
+      source: sourceId,
+      target: targetId,
+      brokenAt: cached[brokenIdx],
+      detectedBy,
+      detectionMs,
+      rerrMessages: upstream.length - 1,
+      repairMs: rediscovery.latencyMs === null ? null : rerrArrival + rediscovery.latencyMs,
+    });
+    rerrMessages += upstream.length - 1;
+    if (rediscovery.path.length > 0) routes[key] = rediscovery.path;
+    return rediscovery.path;
+  };
+
+  const report = (): AodvReport => {
+    const found = discoveries.filter(d => d.latencyMs !== null);
+    return {
+      discoveries,
+      routeErrors,
+      cachedRoutes,
+      rreqBroadcasts: discoveries.reduce((sum, d) => sum + d.rreqBroadcasts, 0),
+      rrepMessages: discoveries.reduce((sum, d) => sum + d.rrepMessages, 0),
+      rerrMessages,
+      controlBytes,
+      signalingEnergy,
+      averageDiscoveryMs: found.length > 0 ? found.reduce((sum, d) => sum + d.latencyMs!, 0) / found.length : null,
+      transmissions,
+      routes: { ...routes },
+    };
+  };
+
+  return { route, report };
+};
@@ -0,0 +1,42 @@
+// Overlay colours shared by the sidebar panels and the canvas that draws what they compute.
+
+// Packet dots during playback, picked by flow.
+const FLOW_COLORS = [
+  'hsl(var(--chart-1))',
+  'hsl(var(--chart-2))',
+  'hsl(var(--chart-3))',
+  'hsl(var(--chart-4))',
+  'hsl(var(--chart-5))',
+];
+
+// Stable colour per flow id.
+export const flowColor = (flowId: string): string => {
+  let hash = 0;
+  for (let i = 0; i < flowId.length; i++) hash = (hash * 31 + flowId.charCodeAt(i)) >>> 0;
+  return FLOW_COLORS[hash % FLOW_COLORS.length];
+};
+
+// One colour per disjoint route on the canvas, in route order.
+export const MULTIPATH_COLORS = [
+  'hsl(217, 91%, 60%)',
+  'hsl(142, 71%, 40%)',
+  'hsl(280, 65%, 60%)',
+  'hsl(340, 82%, 52%)',
+  'hsl(180, 70%, 38%)',
+  'hsl(45, 93%, 47%)',
+];
+
+// Preferred-parent links of the RPL DODAG.
+export const RPL_PARENT_COLOR = 'hsl(var(--chart-4))';
+
+// One colour per cluster head of a LEACH round, in election order.
+export const CLUSTER_COLORS = [
+  'hsl(25, 95%, 53%)',
+  'hsl(199, 89%, 48%)',
+  'hsl(142, 71%, 40%)',
+  'hsl(280, 65%, 60%)',
+  'hsl(340, 82%, 52%)',
+  'hsl(45, 93%, 47%)',
+  'hsl(180, 70%, 38%)',
+  'hsl(0, 0%, 45%)',
+];
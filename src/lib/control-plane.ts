@@ -0,0 +1,72 @@
+import type { Node, Edge } from 'reactflow';
+import type { NodeData, EdgeData } from '@/context/network-context';
+import { transmissionTimeMs, txEnergyUJ, rxEnergyUJ } from '@/lib/metrics-model';
+
+export interface ControlReception {
+  nodeId: string;
+  edgeId: string; // Link the message travelled over
+  reversed: boolean; // Heard over an edge drawn in the opposite direction
+  arrivedAt: number; // ms
+}
+
+export interface ControlTransmission {
+  kind: 'hello' | 'tc' | 'rreq' | 'rrep' | 'rerr';
+  origin: string; // Node the message is about; the sender for HELLOs
+  sender: string;
+  sentAt: number; // ms
+  receptions: ControlReception[];
+}
+
+// Links each active node's control messages are heard over, by neighbour id.
+export type ControlLinks = Map<string, Map<string, { edge: Edge<EdgeData>; reversed: boolean }>>;
+
+// Control neighbours: a broadcast is heard over a link drawn in either
+// direction, so signalling works on one-way data links as well. Links
+// without bandwidth carry nothing.
+export const controlNeighbours = (nodes: Node<NodeData>[], edges: Edge<EdgeData>[]): ControlLinks => {
+  const alive = new Set(nodes.filter(n => !n.data.isFailed).map(n => n.id));
+  const links: ControlLinks = new Map();
+  alive.forEach(id => links.set(id, new Map()));
+  edges.forEach(edge => {
+    if (!alive.has(edge.source) || !alive.has(edge.target) || edge.source === edge.target) return;
+    if (!((edge.data?.bandwidth ?? 0) > 0)) return;
+    links.get(edge.source)!.set(edge.target, { edge, reversed: false });
+    if (!links.get(edge.target)!.has(edge.source)) links.get(edge.target)!.set(edge.source, { edge, reversed: true });
+  });
+  return links;
+};
+
+// One broadcast of `bits` by `sender`: it transmits once, at the rate of its
+// slowest neighbour, and every neighbour receives over its own link.
+export const broadcastReceptions = (
+  sender: string,
+  neighbours: ControlLinks,
+  bits: number,
+  sentAt: number
+): { receptions: ControlReception[]; energy: number } => {
+  const heard = Array.from(neighbours.get(sender)!.entries());
+  if (heard.length === 0) return { receptions: [], energy: 0 };
+  const slowest = Math.min(...heard.map(([, { edge }]) => edge.data!.bandwidth));
+  let energy = txEnergyUJ(bits, slowest);
+  const receptions = heard.map(([nodeId, { edge, reversed }]) => {
+    energy += rxEnergyUJ(bits, edge.data!.bandwidth);
+    return { nodeId, edgeId: edge.id, reversed, arrivedAt: sentAt + (edge.data?.latency ?? 0) + transmissionTimeMs(bits, slowest) };
+  });
+  return { receptions, energy };
+};
+
+// One unicast of `bits` from `sender` to the neighbour `receiver`.
+export const unicastReception = (
+  sender: string,
+  receiver: string,
+  neighbours: ControlLinks,
+  bits: number,
+  sentAt: number
+): { reception: ControlReception; energy: number } => {
+  const { edge, reversed } = neighbours.get(sender)!.get(receiver)!;
+  const bandwidth = edge.data!.bandwidth;
+  return {
+    reception: { nodeId: receiver, edgeId: edge.id, reversed, arrivedAt: sentAt + (edge.data?.latency ?? 0) + transmissionTimeMs(bits, bandwidth) },
+    energy: txEnergyUJ(bits, bandwidth) + rxEnergyUJ(bits, bandwidth),
+  };
+};
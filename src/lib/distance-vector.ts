@@ -0,0 +1,159 @@
+import type { Node, Edge } from 'reactflow';
+import type { NodeData, EdgeData } from '@/context/network-context';
+
+// 'rip' accepts any news from the current next hop (no split horizon), so a
+// failure makes neighbours count to infinity. 'dsdv' tags routes with
+// destination-issued sequence numbers: even while the destination is heard
+// from, odd once a neighbour reports it broken, and stale news is ignored.
+export type DistanceVectorVariant = 'rip' | 'dsdv';
+
+export const DV_INFINITY = 16; // RIP's "unreachable" hop count
+export const MAX_DV_ROUNDS = 100;
+
+export interface RouteEntry {
+  destination: string;
+  nextHop: string | null; // null for the node's own entry
+  metric: number; // Hops; DV_INFINITY when unreachable
+  sequence: number; // DSDV sequence number (unused by RIP)
+}
+
+export type RoutingTable = Record<string, RouteEntry>; // Keyed by destination
+
+export interface DistanceVectorRound {
+  round: number;
+  changes: number; // Route entries whose next hop or metric changed
+  updatedLinks: string[]; // Edge ids whose advertisement changed the receiver's table
+  newlyFailed: string[]; // Nodes whose failure was detected at the start of this round
+  maxMetric: number; // Largest finite metric in any table; climbs during count-to-infinity
+  unreachable: number; // Entries at DV_INFINITY
+}
+
+export interface DistanceVectorState {
+  variant: DistanceVectorVariant;
+  round: number;
+  tables: Record<string, RoutingTable>; // Tables of the nodes that are up
+  history: DistanceVectorRound[];
+  converged: boolean; // The last round changed no route
+  convergedAtRound: number | null; // Last round that changed a route before the current quiet period
+}
+
+const selfTable = (nodeId: string, sequence: number): RoutingTable => ({
+  [nodeId]: { destination: nodeId, nextHop: null, metric: 0, sequence },
+});
+
+const tableStats = (tables: Record<string, RoutingTable>) => {
+  let maxMetric = 0;
+  let unreachable = 0;
+  Object.values(tables).forEach(table => Object.values(table).forEach(entry => {
+    if (entry.metric >= DV_INFINITY) unreachable++;
+    else maxMetric = Math.max(maxMetric, entry.metric);
+  }));
+  return { maxMetric, unreachable };
+};
+
+// Round 0: every active node only knows a route to itself.
+export const initDistanceVector = (nodes: Node<NodeData>[], variant: DistanceVectorVariant): DistanceVectorState => {
+  const tables: Record<string, RoutingTable> = {};
+  nodes.filter(n => !n.data.isFailed).forEach(n => {
+    tables[n.id] = selfTable(n.id, 0);
+  });
+  return {
+    variant,
+    round: 0,
+    tables,
+    history: [{ round: 0, changes: 0, updatedLinks: [], newlyFailed: [], ...tableStats(tables) }],
+    converged: false,
+    convergedAtRound: null,
+  };
+};
+
+// One synchronous exchange. Nodes that failed since the last round drop out and
+// their neighbours immediately mark routes through them as unreachable; nodes
+// that came back start over with only their own entry. Then every node hears
+// the tables its neighbours held at the end of the previous round: a node
+// with a link u → v learns v's routes at one hop more.
+export const stepDistanceVector = (
+  state: DistanceVectorState,
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[]
+): DistanceVectorState => {
+  const { variant } = state;
+  const alive = new Set(nodes.filter(n => !n.data.isFailed).map(n => n.id));
+  const tables: Record<string, RoutingTable> = {};
+  const newlyFailed = Object.keys(state.tables).filter(id => !alive.has(id));
+  let changes = 0;
+
+  // DSDV destinations advertise a fresh even sequence number every round.
+  const ownSequence = variant === 'dsdv' ? 2 * (state.round + 1) : 0;
+  alive.forEach(id => {
+    const previous = state.tables[id];
+    if (!previous) {
+      tables[id] = selfTable(id, ownSequence);
+      return;
+    }
+    const table: RoutingTable = {};
+    Object.values(previous).forEach(entry => {
+      const brokenHop = entry.nextHop !== null && !alive.has(entry.nextHop);
+      if (brokenHop && entry.metric < DV_INFINITY) {
+        table[entry.destination] = { ...entry, metric: DV_INFINITY, sequence: entry.sequence + (variant === 'dsdv' ? 1 : 0) };
+        changes++;
+      } else {
+        table[entry.destination] = { ...entry };
+      }
+    });
+    table[id] = { ...table[id], sequence: ownSequence };
+    tables[id] = table;
+  });
+
+  // Advertisements carry the tables as they stood before this round's updates.
+  const advertised: Record<string, RoutingTable> = {};
+  Object.entries(tables).forEach(([id, table]) => {
+    advertised[id] = Object.fromEntries(Object.entries(table).map(([dest, entry]) => [dest, { ...entry }]));
+  });
+
+  const updatedLinks = new Set<string>();
+  edges.forEach(edge => {
+    const receiver = tables[edge.source];
+    const neighbourTable = advertised[edge.target];
+    if (!receiver || !neighbourTable || edge.source === edge.target) return;
+    Object.values(neighbourTable).forEach(offer => {
+      if (offer.destination === edge.source) return;
+      const metric = Math.min(DV_INFINITY, offer.metric + 1);
+      const current = receiver[offer.destination];
+      const accept = variant === 'rip'
+        ? !current || (current.nextHop === edge.target ? current.metric !== metric : metric < current.metric)
+        : !current || offer.sequence > current.sequence || (offer.sequence === current.sequence && metric < current.metric);
+      if (!accept) return;
+      const routeChanged = !current || current.metric !== metric || current.nextHop !== edge.target;
+      receiver[offer.destination] = { destination: offer.destination, nextHop: edge.target, metric, sequence: offer.sequence };
+      if (routeChanged) {
+        changes++;
+        updatedLinks.add(edge.id);
+      }
+    });
+  });
+
+  const round = state.round + 1;
+  const quiet = changes === 0 && newlyFailed.length === 0;
+  return {
+    variant,
+    round,
+    tables,
+    history: [...state.history, { round, changes, updatedLinks: Array.from(updatedLinks), newlyFailed, ...tableStats(tables) }],
+    converged: quiet,
+    convergedAtRound: quiet ? state.convergedAtRound ?? state.round : null,
+  };
+};
+
+// Steps until a round changes nothing, or `MAX_DV_ROUNDS` rounds have run in total.
+export const runDistanceVectorToConvergence = (
+  state: DistanceVectorState,
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[]
+): DistanceVectorState => {
+  let current = stepDistanceVector(state, nodes, edges);
+  while (!current.converged && current.round < MAX_DV_ROUNDS) {
+    current = stepDistanceVector(current, nodes, edges);
+  }
+  return current;
+};
@@ -217,6 +217,28 @@ export const exampleScenarios: ExampleScenario[] = [
       ].map(e => ({ ...e, type: 'default', markerEnd: { type: MarkerType.ArrowClosed } })),
     }
   },
+  {
+    id: 'energy-harvesting',
+    name: '8. Energy Harvesting Links',
+    description: 'Solar-powered relays earn a harvest reward that lowers (and can make negative) their link cost under Bellman-Ford. Raise the reward on the H2 → H1 back-link above its latency to create a negative cycle.',
+    data: {
+      nodes: [
+        { id: 'S', type: 'custom', position: { x: 50, y: 200 }, data: { id: 'S', label: 'Source S', battery: 90, queueSize: 2, role: 'sensor', isFailed: false } },
+        { id: 'R', type: 'custom', position: { x: 300, y: 320 }, data: { id: 'R', label: 'Router R', battery: 85, queueSize: 6, role: 'router', isFailed: false } },
+        { id: 'H1', type: 'custom', position: { x: 250, y: 80 }, data: { id: 'H1', label: 'Solar Relay H1', battery: 100, queueSize: 3, role: 'router', isFailed: false } },
+        { id: 'H2', type: 'custom', position: { x: 450, y: 80 }, data: { id: 'H2', label: 'Solar Relay H2', battery: 100, queueSize: 4, role: 'router', isFailed: false } },
+        { id: 'G', type: 'custom', position: { x: 650, y: 200 }, data: { id: 'G', label: 'Gateway G', battery: 100, queueSize: 10, role: 'gateway', isFailed: false } },
+      ],
+      edges: [
+        { id: 'eS-R', source: 'S', target: 'R', data: { latency: 5, bandwidth: 150 } },
+        { id: 'eR-G', source: 'R', target: 'G', data: { latency: 5, bandwidth: 150 } }, // Lowest latency: S-R-G = 10
+        { id: 'eS-H1', source: 'S', target: 'H1', data: { latency: 10, bandwidth: 120 } },
+        { id: 'eH1-H2', source: 'H1', target: 'H2', data: { latency: 6, bandwidth: 120, harvestReward: 10 } }, // Cost -4
+        { id: 'eH2-G', source: 'H2', target: 'G', data: { latency: 3, bandwidth: 120 } }, // S-H1-H2-G = 10 - 4 + 3 = 9
+        { id: 'eH2-H1', source: 'H2', target: 'H1', data: { latency: 5, bandwidth: 100, harvestReward: 0 } }, // Cycle H1-H2-H1 = +1 until rewarded
+      ].map(e => ({ ...e, type: 'default', markerEnd: { type: MarkerType.ArrowClosed } })),
+    }
+  },
 ];
 
   
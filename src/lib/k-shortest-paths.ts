@@ -0,0 +1,107 @@
+import type { Node, Edge } from 'reactflow';
+import type { NodeData, EdgeData, SimulationParams } from '@/context/network-context';
+import {
+  findPathDijkstra,
+  findPathBellmanFord,
+  latencyCost,
+  harvestAwareCost,
+  createAdaptiveCost,
+  type EdgeCostFn,
+  type PathResult,
+} from '@/lib/routing';
+import { MinPriorityQueue } from '@/lib/priority-queue';
+
+export interface PathRanking {
+  edgeCost: EdgeCostFn;
+  allowsNegative: boolean; // Spur paths need Bellman-Ford when costs can be negative
+}
+
+// The cost each algorithm minimizes (link-state runs SPF on latency and AODV's
+// first RREQ comes over the fastest links); 'compare' ranks by the adaptive
+// cost it displays.
+// Adaptive ranking uses the stored node state, without the per-run measurement noise.
+export const rankingFor = (
+  algorithm: SimulationParams['algorithm'],
+  weights: SimulationParams['weights']
+): PathRanking => {
+  if (algorithm === 'dijkstra' || algorithm === 'link-state' || algorithm === 'aodv') return { edgeCost: latencyCost, allowsNegative: false };
+  if (algorithm === 'bellman-ford') return { edgeCost: harvestAwareCost, allowsNegative: true };
+  return { edgeCost: createAdaptiveCost(weights), allowsNegative: false };
+};
+
+// Total cost of `path`, taking the cheapest edge between consecutive nodes.
+const pathCost = (
+  path: string[],
+  nodeById: Map<string, Node<NodeData>>,
+  edges: Edge<EdgeData>[],
+  edgeCost: EdgeCostFn
+): number => {
+  let cost = 0;
+  for (let i = 0; i < path.length - 1; i++) {
+    const hopCosts = edges
+      .filter(e => e.source === path[i] && e.target === path[i + 1])
+      .map(e => edgeCost(e, nodeById.get(e.source)!, nodeById.get(e.target)!));
+    if (hopCosts.length === 0) return Infinity;
+    cost += Math.min(...hopCosts);
+  }
+  return cost;
+};
+
+// Yen's algorithm: the `k` cheapest loopless source → target paths in order.
+// Each further path deviates from an accepted one at some spur node; the root
+// up to the spur is kept, the edges that earlier paths took out of that root
+// are removed, and so are the root's nodes so the spur path cannot loop back.
+export const findKShortestPaths = (
+  sourceId: string,
+  targetId: string,
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  k: number,
+  { edgeCost, allowsNegative }: PathRanking
+): PathResult[] => {
+  const shortest = (spurSource: string, spurNodes: Node<NodeData>[], spurEdges: Edge<EdgeData>[]): PathResult => {
+    if (!allowsNegative) return findPathDijkstra(spurSource, targetId, spurNodes, spurEdges, edgeCost);
+    const result = findPathBellmanFord(spurSource, targetId, spurNodes, spurEdges, edgeCost);
+    return result.negativeCycle ? { path: [], cost: Infinity } : result;
+  };
+
+  const first = shortest(sourceId, nodes, edges);
+  if (first.path.length === 0) return [];
+  if (sourceId === targetId) return [first];
+
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const accepted: PathResult[] = [first];
+  const candidates = new MinPriorityQueue<PathResult>();
+  const seen = new Set<string>([first.path.join('>')]);
+
+  while (accepted.length < k) {
+    const previous = accepted[accepted.length - 1].path;
+    for (let i = 0; i < previous.length - 1; i++) {
+      const spurNode = previous[i];
+      const rootPath = previous.slice(0, i + 1);
+
+      const removedEdges = new Set<string>();
+      accepted.forEach(({ path }) => {
+        if (path.length > i + 1 && rootPath.every((id, idx) => path[idx] === id)) {
+          edges.filter(e => e.source === path[i] && e.target === path[i + 1]).forEach(e => removedEdges.add(e.id));
+        }
+      });
+      const removedNodes = new Set(rootPath.slice(0, -1));
+      const spurNodes = nodes.map(n => removedNodes.has(n.id) ? { ...n, data: { ...n.data, isFailed: true } } : n);
+      const spurEdges = edges.filter(e => !removedEdges.has(e.id));
+
+      const spur = shortest(spurNode, spurNodes, spurEdges);
+      if (spur.path.length === 0) continue;
+      const path = [...rootPath.slice(0, -1), ...spur.path];
+      const key = path.join('>');
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const cost = pathCost(path, nodeById, edges, edgeCost);
+      candidates.push({ path, cost }, cost);
+    }
+    if (candidates.isEmpty()) break;
+    accepted.push(candidates.pop()!.value);
+  }
+
+  return accepted;
+};
@@ -0,0 +1,229 @@
+import type { Node, Edge } from 'reactflow';
+import type { NodeData, EdgeData, SimulationParams } from '@/context/network-context';
+import { findPathDijkstra, latencyCost, type EdgeCostFn, type PathResult } from '@/lib/routing';
+import { createRng } from '@/lib/random';
+import { bytesToBits, pathEdges, nodeEnergyPerPacket, BATTERY_CAPACITY_UJ } from '@/lib/metrics-model';
+
+export const AGGREGATION_ENERGY_PER_BIT_UJ = 0.005; // 5 nJ/bit per signal merged (LEACH's E_DA)
+export const MAX_LEACH_ROUNDS = 20_000;
+const MAX_CLUSTER_SNAPSHOTS = 50;
+const MAX_SERIES_POINTS = 200;
+
+export interface ClusterSnapshot {
+  round: number;
+  heads: string[];
+  membership: Record<string, string | null>; // Sensor → its cluster head; null when it sends straight to a gateway
+  paths: string[][]; // Every transmission of the round: members to heads, heads and direct senders to gateways
+}
+
+export interface ProtocolLifetime {
+  firstDeathRound: number | null;
+  halfDeathRound: number | null; // Round at which half of the sensors had died
+  lastRound: number; // Last round in which some sensor's reading reached a gateway
+  totalEnergy: number; // µJ over all rounds, all nodes
+  deliveredReadings: number;
+}
+
+export interface LeachRoundPoint {
+  round: number;
+  leachEnergy: number | null; // µJ spent in the round; null once the protocol has stopped
+  flatEnergy: number | null;
+  leachAlive: number | null; // Sensors still alive after the round
+  flatAlive: number | null;
+}
+
+export interface LeachResult {
+  headFraction: number;
+  sensors: number;
+  leach: ProtocolLifetime;
+  flat: ProtocolLifetime;
+  series: LeachRoundPoint[]; // Thinned to at most MAX_SERIES_POINTS rounds
+  clusters: ClusterSnapshot[]; // The first rounds, to watch the heads rotate
+}
+
+type PathFinder = (sourceId: string, targetId: string) => PathResult;
+
+interface RoundRoutes {
+  data: PathFinder; // Over the links as drawn
+  radio: PathFinder; // Fewest hops over links in either direction, for members reaching their head
+}
+
+interface RoundPlan {
+  paths: string[][];
+  aggregators: Map<string, number>; // Cluster head → readings it merged, its own included
+  delivered: number; // Sensor readings that reach a gateway
+}
+
+type RoundPlanner = (nodes: Node<NodeData>[], round: number, routes: RoundRoutes) => RoundPlan;
+
+interface RoundRecord {
+  energy: number;
+  alive: number;
+}
+
+// Drains batteries round by round under `planRound` until no sensor reading
+// gets through. Every path carries one packet, paid for per hop as in the
+// lifetime simulation; cluster heads also pay for aggregation. Paths are
+// cached until a node dies.
+const drainRounds = (
+  initialNodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  params: Pick<SimulationParams, 'packetSize' | 'maxRetries'>,
+  planRound: RoundPlanner
+): { lifetime: ProtocolLifetime; records: RoundRecord[] } => {
+  let nodes = initialNodes.map(n => ({ ...n, data: { ...n.data } }));
+  const sensorIds = new Set(nodes.filter(n => n.data.role === 'sensor' && !n.data.isFailed).map(n => n.id));
+  const aliveSensors = () => nodes.filter(n => sensorIds.has(n.id) && !n.data.isFailed).length;
+  const bits = bytesToBits(params.packetSize);
+  const radioEdges = [...edges, ...edges.map(edge => ({ ...edge, id: `${edge.id}-reverse`, source: edge.target, target: edge.source }))];
+  let paths = new Map<string, PathResult>();
+  const cachedFinder = (kind: keyof RoundRoutes, links: Edge<EdgeData>[], edgeCost: EdgeCostFn): PathFinder => (sourceId, targetId) => {
+    const key = `${kind}:${sourceId}>${targetId}`;
+    if (!paths.has(key)) paths.set(key, findPathDijkstra(sourceId, targetId, nodes, links, edgeCost));
+    return paths.get(key)!;
+  };
+  const routes: RoundRoutes = {
+    data: cachedFinder('data', edges, latencyCost),
+    radio: cachedFinder('radio', radioEdges, () => 1),
+  };
+
+  const lifetime: ProtocolLifetime = { firstDeathRound: null, halfDeathRound: null, lastRound: 0, totalEnergy: 0, deliveredReadings: 0 };
+  const records: RoundRecord[] = [];
+  for (let round = 1; round <= MAX_LEACH_ROUNDS && aliveSensors() > 0; round++) {
+    const plan = planRound(nodes, round, routes);
+    if (plan.delivered === 0) break;
+
+    const drain = new Map<string, number>();
+    plan.paths.filter(path => path.length > 1).forEach(path => {
+      nodeEnergyPerPacket(pathEdges(path, radioEdges)!, bits, params.maxRetries).forEach((energy, nodeId) => {
+        drain.set(nodeId, (drain.get(nodeId) ?? 0) + energy);
+      });
+    });
+    plan.aggregators.forEach((readings, headId) => {
+      drain.set(headId, (drain.get(headId) ?? 0) + readings * bits * AGGREGATION_ENERGY_PER_BIT_UJ);
+    });
+
+    let died = false;
+    nodes = nodes.map(node => {
+      const spent = drain.get(node.id);
+      if (!spent) return node;
+      const battery = Math.max(0, node.data.battery - (spent / BATTERY_CAPACITY_UJ) * 100);
+      died = died || (battery <= 0 && !node.data.isFailed);
+      return { ...node, data: { ...node.data, battery, isFailed: node.data.isFailed || battery <= 0 } };
+    });
+    if (died) paths = new Map();
+
+    const energy = Array.from(drain.values()).reduce((sum, spent) => sum + spent, 0);
+    const alive = aliveSensors();
+    records.push({ energy, alive });
+    lifetime.lastRound = round;
+    lifetime.totalEnergy += energy;
+    lifetime.deliveredReadings += plan.delivered;
+    if (alive < sensorIds.size && lifetime.firstDeathRound === null) lifetime.firstDeathRound = round;
+    if (alive <= sensorIds.size / 2 && lifetime.halfDeathRound === null) lifetime.halfDeathRound = round;
+  }
+  return { lifetime, records };
+};
+
+const nearestGateway = (sensorId: string, nodes: Node<NodeData>[], pathBetween: PathFinder): PathResult =>
+  nodes
+    .filter(n => n.data.role === 'gateway' && !n.data.isFailed)
+    .map(gateway => pathBetween(sensorId, gateway.id))
+    .reduce<PathResult>((best, route) => route.path.length > 1 && route.cost < best.cost ? route : best, { path: [], cost: Infinity });
+
+// Flat routing: every sensor sends its own reading to the nearest gateway.
+const planFlatRound: RoundPlanner = (nodes, _round, routes) => {
+  const paths = nodes
+    .filter(n => n.data.role === 'sensor' && !n.data.isFailed)
+    .map(sensor => nearestGateway(sensor.id, nodes, routes.data).path)
+    .filter(path => path.length > 1);
+  return { paths, aggregators: new Map(), delivered: paths.length };
+};
+
+// LEACH with rotating cluster heads. Rounds are grouped in epochs of 1/P;
+// within an epoch each sensor that has not led a cluster yet becomes head with
+// probability P / (1 − P·(r mod 1/P)), so every sensor leads once per epoch.
+// A sensor joins the head it reaches in the fewest radio hops, links counting
+// in either direction, as long as that takes fewer hops than its own route to
+// a gateway; otherwise it sends straight there. Heads merge their members' readings with their own and
+// forward one packet to the nearest gateway, so relays near the gateways
+// carry one packet per cluster instead of one per sensor.
+export const runLeachComparison = (
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  params: Pick<SimulationParams, 'packetSize' | 'maxRetries' | 'seed'>,
+  headFraction: number
+): LeachResult => {
+  const rng = createRng(params.seed);
+  const epoch = Math.max(1, Math.round(1 / headFraction));
+  const ledThisEpoch = new Set<string>();
+  const clusters: ClusterSnapshot[] = [];
+
+  const planLeachRound: RoundPlanner = (roundNodes, round, routes) => {
+    const slot = (round - 1) % epoch;
+    if (slot === 0) ledThisEpoch.clear();
+    const sensors = roundNodes.filter(n => n.data.role === 'sensor' && !n.data.isFailed).map(n => n.id);
+    const threshold = headFraction / (1 - headFraction * slot);
+    const heads = sensors.filter(id => !ledThisEpoch.has(id) && rng() < threshold);
+    heads.forEach(id => ledThisEpoch.add(id));
+
+    const uplinks = new Map(heads.map(head => [head, nearestGateway(head, roundNodes, routes.data)]));
+    const reachableHeads = heads.filter(head => uplinks.get(head)!.path.length > 1);
+    const membership: Record<string, string | null> = {};
+    const paths: string[][] = [];
+    const aggregators = new Map(reachableHeads.map(head => [head, 1]));
+    let delivered = reachableHeads.length;
+
+    sensors.filter(id => !uplinks.has(id)).forEach(sensorId => {
+      const direct = nearestGateway(sensorId, roundNodes, routes.data);
+      const join = reachableHeads
+        .map(head => ({ head, route: routes.radio(sensorId, head) }))
+        .filter(({ route }) => route.path.length > 1 && (direct.path.length === 0 || route.path.length < direct.path.length))
+        .sort((a, b) => a.route.cost - b.route.cost)[0];
+      if (join) {
+        membership[sensorId] = join.head;
+        paths.push(join.route.path);
+        aggregators.set(join.head, aggregators.get(join.head)! + 1);
+        delivered++;
+      } else {
+        membership[sensorId] = null;
+        if (direct.path.length > 1) {
+          paths.push(direct.path);
+          delivered++;
+        }
+      }
+    });
+    heads.forEach(head => {
+      membership[head] = head;
+      if (uplinks.get(head)!.path.length > 1) paths.push(uplinks.get(head)!.path);
+    });
+
+    if (clusters.length < MAX_CLUSTER_SNAPSHOTS) clusters.push({ round, heads, membership, paths });
+    return { paths, aggregators, delivered };
+  };
+
+  const leach = drainRounds(nodes, edges, params, planLeachRound);
+  const flat = drainRounds(nodes, edges, params, planFlatRound);
+
+  // Sample both runs on the same rounds, keeping each run's last round.
+  const rounds = Math.max(leach.records.length, flat.records.length);
+  const every = Math.max(1, Math.ceil(rounds / MAX_SERIES_POINTS));
+  const sampled = new Set<number>([leach.records.length, flat.records.length]);
+  for (let round = every; round <= rounds; round += every) sampled.add(round);
+  const series = Array.from(sampled).filter(round => round > 0).sort((a, b) => a - b).map(round => ({
+    round,
+    leachEnergy: leach.records[round - 1]?.energy ?? null,
+    flatEnergy: flat.records[round - 1]?.energy ?? null,
+    leachAlive: leach.records[round - 1]?.alive ?? null,
+    flatAlive: flat.records[round - 1]?.alive ?? null,
+  }));
+
+  return {
+    headFraction,
+    sensors: nodes.filter(n => n.data.role === 'sensor' && !n.data.isFailed).length,
+    leach: leach.lifetime,
+    flat: flat.lifetime,
+    series,
+    clusters,
+  };
+};
@@ -0,0 +1,141 @@
+import type { Node, Edge } from 'reactflow';
+import type { NodeData, EdgeData, PerformanceMetricsData } from '@/context/network-context';
+import {
+  bytesToBits,
+  pathEdges,
+  nodeEnergyPerPacket,
+  computeFlowSetMetrics,
+  BATTERY_CAPACITY_UJ,
+  NO_PATH_METRICS,
+  type FlowPath,
+} from '@/lib/metrics-model';
+
+// Runs are synchronous on the UI thread, so each one stops here; the example
+// networks lose their first node after about 2,000 rounds.
+export const MAX_LIFETIME_ROUNDS = 20_000;
+const MAX_SNAPSHOTS = 200;
+
+export interface LifetimeSnapshot {
+  round: number;
+  batteries: Record<string, number>;
+  failed: string[];
+  paths: string[][]; // Route of every flow in this round
+}
+
+export interface LifetimeReport {
+  rounds: number; // Rounds simulated before the run stopped
+  firstNodeDeathRound: number | null;
+  thresholdDeathRound: number | null; // Round at which `deathThreshold` % of nodes had died
+  disconnectionRound: number | null; // First round in which some flow has no source → target route
+  deathThreshold: number;
+  roundLimit: number | null; // Set when the run was cut off at MAX_LIFETIME_ROUNDS
+  snapshots: LifetimeSnapshot[];
+}
+
+export interface LifetimeOptions {
+  deathThreshold: number; // Percent of initially alive nodes
+  maxRetries: number; // ARQ retransmissions per hop
+}
+
+// Picks the route of every flow for one round given the current (drained) node state.
+export type RoundRouter = (nodes: Node<NodeData>[]) => FlowPath[];
+
+const snapshotOf = (round: number, nodes: Node<NodeData>[], paths: string[][]): LifetimeSnapshot => ({
+  round,
+  batteries: Object.fromEntries(nodes.map(n => [n.id, Math.round(n.data.battery * 10) / 10])),
+  failed: nodes.filter(n => n.data.isFailed).map(n => n.id),
+  paths,
+});
+
+// Time-stepped battery depletion. Every round the router picks a path for each
+// flow on the current topology, one packet is sent along each and every node
+// pays its TX/RX energy out of its battery. Nodes that reach 0% fail, so later
+// rounds route around them until some flow is disconnected. The run also ends
+// once no flow is left to drain batteries (every source has died), or at
+// MAX_LIFETIME_ROUNDS.
+export const runLifetimeSimulation = (
+  initialNodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  routeRound: RoundRouter,
+  options: LifetimeOptions
+): { report: LifetimeReport; metrics: PerformanceMetricsData } => {
+  let nodes = initialNodes.map(n => ({ ...n, data: { ...n.data } }));
+  const initiallyAlive = nodes.filter(n => !n.data.isFailed).length;
+  const deathsForThreshold = Math.max(1, Math.ceil(initiallyAlive * options.deathThreshold / 100));
+
+  const report: LifetimeReport = {
+    rounds: 0,
+    firstNodeDeathRound: null,
+    thresholdDeathRound: null,
+    disconnectionRound: null,
+    deathThreshold: options.deathThreshold,
+    roundLimit: null,
+    snapshots: [snapshotOf(0, nodes, [])],
+  };
+  const totals = { energy: 0, latency: 0, delivery: 0 };
+  let deaths = 0;
+  let snapshotEvery = 1;
+
+  for (let round = 1; round <= MAX_LIFETIME_ROUNDS; round++) {
+    const flows = routeRound(nodes);
+    if (flows.length === 0) break; // Nothing left that can drain or die
+    const flowHops = flows.map(flow => flow.path.length > 1 ? pathEdges(flow.path, edges) : undefined);
+    const paths = flows.map(flow => flow.path);
+    if (flowHops.some(hops => !hops)) {
+      report.disconnectionRound = round;
+      report.snapshots.push(snapshotOf(round, nodes, []));
+      break;
+    }
+
+    const roundMetrics = computeFlowSetMetrics(flows, nodes, edges, options.maxRetries);
+    totals.energy += roundMetrics.energyConsumption;
+    totals.latency += roundMetrics.averageLatency;
+    totals.delivery += roundMetrics.deliveryRatio;
+    report.rounds = round;
+
+    const drain = new Map<string, number>();
+    flowHops.forEach((hops, idx) => {
+      nodeEnergyPerPacket(hops!, bytesToBits(flows[idx].packetSizeBytes), options.maxRetries).forEach((energy, nodeId) => {
+        drain.set(nodeId, (drain.get(nodeId) ?? 0) + energy);
+      });
+    });
+
+    let diedThisRound = false;
+    nodes = nodes.map(node => {
+      const spent = drain.get(node.id);
+      if (!spent) return node;
+      const battery = Math.max(0, node.data.battery - (spent / BATTERY_CAPACITY_UJ) * 100);
+      const isFailed = node.data.isFailed || battery <= 0;
+      if (isFailed && !node.data.isFailed) {
+        deaths++;
+        diedThisRound = true;
+      }
+      return { ...node, data: { ...node.data, battery, isFailed } };
+    });
+
+    if (deaths > 0 && report.firstNodeDeathRound === null) report.firstNodeDeathRound = round;
+    if (deaths >= deathsForThreshold && report.thresholdDeathRound === null) report.thresholdDeathRound = round;
+
+    // Keep the snapshot list bounded by thinning it out as the run grows.
+    if (report.snapshots.length >= MAX_SNAPSHOTS) {
+      report.snapshots = report.snapshots.filter((_, idx) => idx % 2 === 0);
+      snapshotEvery *= 2;
+    }
+    if (diedThisRound || round % snapshotEvery === 0) {
+      report.snapshots.push(snapshotOf(round, nodes, paths));
+    }
+  }
+
+  if (report.rounds === MAX_LIFETIME_ROUNDS && report.disconnectionRound === null) report.roundLimit = MAX_LIFETIME_ROUNDS;
+
+  if (report.rounds === 0) return { report, metrics: NO_PATH_METRICS };
+  return {
+    report,
+    metrics: {
+      energyConsumption: totals.energy / report.rounds,
+      averageLatency: totals.latency / report.rounds,
+      deliveryRatio: totals.delivery / report.rounds,
+      networkLifetime: report.firstNodeDeathRound ?? report.rounds,
+    },
+  };
+};
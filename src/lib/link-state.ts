@@ -0,0 +1,176 @@
+import type { Node, Edge } from 'reactflow';
+import type { NodeData, EdgeData } from '@/context/network-context';
+import { findPathDijkstra } from '@/lib/routing';
+import { MinPriorityQueue } from '@/lib/priority-queue';
+import { bytesToBits } from '@/lib/metrics-model';
+import { controlNeighbours, broadcastReceptions, type ControlTransmission } from '@/lib/control-plane';
+
+export const CONTROL_HEADER_BYTES = 16; // Per HELLO or TC message
+export const CONTROL_ENTRY_BYTES = 8; // Per neighbour, MPR or advertised link listed
+const HELLO_ROUNDS = 3; // Neighbours, two-hop neighbours, MPR selection
+
+export interface LinkStateReport {
+  helloMessages: number;
+  tcMessages: number; // TC (LSA) transmissions, forwards included
+  floodingTcMessages: number; // TC transmissions plain flooding would have needed
+  controlBytes: number;
+  signalingEnergy: number; // µJ spent sending and receiving control traffic
+  convergenceTimeMs: number; // Last time a node learned a new LSA
+  mprs: Record<string, string[]>; // Multipoint relays chosen by each node
+  completeDatabases: number; // Nodes holding the LSA of every node they can hear from
+  activeNodes: number;
+  transmissions: ControlTransmission[];
+}
+
+export interface LinkStateRun {
+  report: LinkStateReport;
+  databases: Map<string, Set<string>>; // Origins whose LSA each node holds
+}
+
+// OLSR's greedy MPR heuristic: first the neighbours that are the only way to
+// some two-hop neighbour, then whichever covers the most still-uncovered ones.
+const selectMprs = (nodeId: string, neighbours: Map<string, Map<string, unknown>>): string[] => {
+  const oneHop = Array.from(neighbours.get(nodeId)!.keys());
+  const coverage = new Map(oneHop.map(n => [n, new Set(
+    Array.from(neighbours.get(n)!.keys()).filter(two => two !== nodeId && !neighbours.get(nodeId)!.has(two))
+  )]));
+  const uncovered = new Set(Array.from(coverage.values()).flatMap(set => Array.from(set)));
+  const mprs = new Set<string>();
+  uncovered.forEach(two => {
+    const coverers = oneHop.filter(n => coverage.get(n)!.has(two));
+    if (coverers.length === 1) mprs.add(coverers[0]);
+  });
+  mprs.forEach(mpr => coverage.get(mpr)!.forEach(two => uncovered.delete(two)));
+  while (uncovered.size > 0) {
+    const best = oneHop.reduce((winner, n) => {
+      const gain = Array.from(coverage.get(n)!).filter(two => uncovered.has(two)).length;
+      return gain > winner.gain ? { id: n, gain } : winner;
+    }, { id: '', gain: 0 });
+    if (!best.id) break;
+    mprs.add(best.id);
+    coverage.get(best.id)!.forEach(two => uncovered.delete(two));
+  }
+  return Array.from(mprs);
+};
+
+// Proactive link-state signalling, OLSR style. Three HELLO exchanges let every
+// node learn its neighbours, its two-hop neighbours and who picked it as MPR.
+// Then every node floods a TC message (LSA) listing its outgoing links; a node
+// forwards an LSA the first time it hears it, and only if the sender chose it
+// as a multipoint relay. Messages take each link's latency plus airtime and
+// are assumed not to be lost.
+export const runLinkStateProtocol = (nodes: Node<NodeData>[], edges: Edge<EdgeData>[]): LinkStateRun => {
+  const neighbours = controlNeighbours(nodes, edges);
+  const ids = Array.from(neighbours.keys());
+  const outLinks = new Map(ids.map(id => [id, edges.filter(e => e.source === id && neighbours.has(e.target)).length]));
+  const transmissions: ControlTransmission[] = [];
+  let controlBytes = 0;
+  let signalingEnergy = 0;
+
+  const broadcast = (kind: ControlTransmission['kind'], origin: string, sender: string, sentAt: number, bytes: number): ControlTransmission => {
+    const { receptions, energy } = broadcastReceptions(sender, neighbours, bytesToBits(bytes), sentAt);
+    signalingEnergy += energy;
+    controlBytes += bytes;
+    const transmission = { kind, origin, sender, sentAt, receptions };
+    transmissions.push(transmission);
+    return transmission;
+  };
+
+  // HELLO rounds start together once the previous round has been heard everywhere.
+  const mprs: Record<string, string[]> = {};
+  let helloTime = 0;
+  for (let round = 0; round < HELLO_ROUNDS; round++) {
+    let roundEnd = helloTime;
+    ids.forEach(id => {
+      if (round === HELLO_ROUNDS - 1) mprs[id] = selectMprs(id, neighbours);
+      const entries = round === 0 ? 0 : round === 1 ? neighbours.get(id)!.size : mprs[id].length;
+      const sent = broadcast('hello', id, id, helloTime, CONTROL_HEADER_BYTES + CONTROL_ENTRY_BYTES * entries);
+      sent.receptions.forEach(reception => {
+        roundEnd = Math.max(roundEnd, reception.arrivedAt);
+      });
+    });
+    helloTime = roundEnd;
+  }
+  const selectedBy = new Map(ids.map(id => [id, new Set(ids.filter(other => mprs[other].includes(id)))]));
+
+  const databases = new Map(ids.map(id => [id, new Set([id])]));
+  const events = new MinPriorityQueue<{ nodeId: string; origin: string; sender: string }>();
+  const tcBytes = (origin: string) => CONTROL_HEADER_BYTES + CONTROL_ENTRY_BYTES * outLinks.get(origin)!;
+  const sendTc = (origin: string, sender: string, time: number) => {
+    broadcast('tc', origin, sender, time, tcBytes(origin)).receptions.forEach(reception => {
+      events.push({ nodeId: reception.nodeId, origin, sender }, reception.arrivedAt);
+    });
+  };
+  ids.forEach(id => sendTc(id, id, helloTime));
+
+  let convergenceTimeMs = helloTime;
+  while (!events.isEmpty()) {
+    const { value: { nodeId, origin, sender }, priority: time } = events.pop()!;
+    const database = databases.get(nodeId)!;
+    if (database.has(origin)) continue; // Duplicate
+    database.add(origin);
+    convergenceTimeMs = Math.max(convergenceTimeMs, time);
+    if (selectedBy.get(nodeId)!.has(sender)) sendTc(origin, nodeId, time);
+  }
+
+  // Plain flooding: every node that hears an LSA repeats it once.
+  let floodingTcMessages = 0;
+  const reachableFrom = (origin: string) => {
+    const seen = new Set([origin]);
+    const frontier = [origin];
+    while (frontier.length > 0) {
+      neighbours.get(frontier.pop()!)!.forEach((_, next) => {
+        if (!seen.has(next)) {
+          seen.add(next);
+          frontier.push(next);
+        }
+      });
+    }
+    return seen;
+  };
+  let completeDatabases = 0;
+  ids.forEach(id => {
+    const component = reachableFrom(id);
+    floodingTcMessages += component.size;
+    if (Array.from(component).every(other => databases.get(id)!.has(other))) completeDatabases++;
+  });
+
+  return {
+    report: {
+      helloMessages: transmissions.filter(t => t.kind === 'hello').length,
+      tcMessages: transmissions.filter(t => t.kind === 'tc').length,
+      floodingTcMessages,
+      controlBytes,
+      signalingEnergy,
+      convergenceTimeMs,
+      mprs,
+      completeDatabases,
+      activeNodes: ids.length,
+      transmissions,
+    },
+    databases,
+  };
+};
+
+// Hop-by-hop forwarding: each node on the way runs SPF (latency) over the
+// links advertised in its own database and hands the packet to its next hop.
+// Returns an empty path if some node has no route or the next hops loop.
+export const linkStatePath = (
+  run: LinkStateRun,
+  sourceId: string,
+  targetId: string,
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[]
+): string[] => {
+  const path = [sourceId];
+  while (path[path.length - 1] !== targetId) {
+    const current = path[path.length - 1];
+    const database = run.databases.get(current);
+    if (!database) return [];
+    const knownEdges = edges.filter(edge => database.has(edge.source));
+    const next = findPathDijkstra(current, targetId, nodes, knownEdges).path[1];
+    if (next === undefined || path.includes(next)) return [];
+    path.push(next);
+  }
+  return path;
+};
@@ -0,0 +1,261 @@
+import type { Node, Edge } from 'reactflow';
+import type { NodeData, EdgeData, PerformanceMetricsData } from '@/context/network-context';
+
+// First-order radio energy model. Energy is in microjoules (µJ), time in
+// milliseconds, bandwidth in kbps (so bits / kbps = ms on air).
+export const ELECTRONICS_ENERGY_PER_BIT_UJ = 0.05; // 50 nJ/bit for TX or RX circuitry
+export const RADIO_ON_POWER_MW = 20; // Draw of an awake transceiver, per side, while a packet is on air
+export const BIT_ERROR_RATE = 1e-5; // Default channel bit error rate
+export const BATTERY_CAPACITY_UJ = 1_000_000; // 1 J budget behind a 100% battery reading
+export const DEFAULT_BUFFER_CAPACITY = 50; // Packets a node can hold, including the one being sent
+
+export const bytesToBits = (bytes: number): number => bytes * 8;
+
+// Time the packet occupies the link.
+export const transmissionTimeMs = (packetBits: number, bandwidthKbps: number): number =>
+  bandwidthKbps > 0 ? packetBits / bandwidthKbps : Infinity;
+
+// Energy spent by the sender to put one packet on the link.
+export const txEnergyUJ = (packetBits: number, bandwidthKbps: number): number =>
+  packetBits * ELECTRONICS_ENERGY_PER_BIT_UJ + RADIO_ON_POWER_MW * transmissionTimeMs(packetBits, bandwidthKbps);
+
+// Energy spent by the receiver to take one packet off the link.
+export const rxEnergyUJ = (packetBits: number, bandwidthKbps: number): number =>
+  packetBits * ELECTRONICS_ENERGY_PER_BIT_UJ + RADIO_ON_POWER_MW * transmissionTimeMs(packetBits, bandwidthKbps);
+
+// Probability a single transmission of the packet is corrupted on this link:
+// the edge's packet error rate when set, otherwise the default bit error rate.
+export const linkLossProbability = (edge: Edge<EdgeData>, packetBits: number): number =>
+  edge.data?.packetErrorRate ?? 1 - Math.pow(1 - BIT_ERROR_RATE, packetBits);
+
+// ARQ: a lost transmission is repeated up to `maxRetries` times.
+// Expected transmissions per hop: 1 + p + … + p^maxRetries.
+export const expectedTransmissions = (lossProbability: number, maxRetries: number): number =>
+  lossProbability >= 1
+    ? maxRetries + 1
+    : (1 - Math.pow(lossProbability, maxRetries + 1)) / (1 - lossProbability);
+
+// Probability the packet gets across the hop within the retry limit.
+export const hopSuccessProbability = (lossProbability: number, maxRetries: number): number =>
+  1 - Math.pow(lossProbability, maxRetries + 1);
+
+export const remainingEnergyUJ = (node: Node<NodeData>): number =>
+  (Math.max(0, node.data.battery) / 100) * BATTERY_CAPACITY_UJ;
+
+export const bufferCapacityOf = (node: Node<NodeData> | undefined): number =>
+  node?.data.bufferCapacity ?? DEFAULT_BUFFER_CAPACITY;
+
+// Per-packet processing time before the node can transmit; 0 when no service rate is set.
+export const processingTimeMs = (node: Node<NodeData> | undefined): number =>
+  node?.data.serviceRate ? 1000 / node.data.serviceRate : 0;
+
+// Resolves the directed edge used for each hop of `path`; undefined if a hop has no edge.
+export const pathEdges = (path: string[], edges: Edge<EdgeData>[]): Edge<EdgeData>[] | undefined => {
+  const hops: Edge<EdgeData>[] = [];
+  for (let i = 0; i < path.length - 1; i++) {
+    const edge = edges.find(e => e.source === path[i] && e.target === path[i + 1]);
+    if (!edge) return undefined;
+    hops.push(edge);
+  }
+  return hops;
+};
+
+export const NO_PATH_METRICS: PerformanceMetricsData = {
+  energyConsumption: Infinity,
+  averageLatency: Infinity,
+  deliveryRatio: 0,
+  networkLifetime: 0,
+};
+
+// µJ each node is expected to spend to move one packet across `hops`, counting
+// retransmissions (the receiver listens to every attempt).
+export const nodeEnergyPerPacket = (hops: Edge<EdgeData>[], packetBits: number, maxRetries = 0): Map<string, number> => {
+  const perNode = new Map<string, number>();
+  hops.forEach(edge => {
+    const bandwidth = edge.data?.bandwidth ?? 0;
+    const attempts = expectedTransmissions(linkLossProbability(edge, packetBits), maxRetries);
+    perNode.set(edge.source, (perNode.get(edge.source) ?? 0) + attempts * txEnergyUJ(packetBits, bandwidth));
+    perNode.set(edge.target, (perNode.get(edge.target) ?? 0) + attempts * rxEnergyUJ(packetBits, bandwidth));
+  });
+  return perNode;
+};
+
+// Rounds until the first node runs dry when each round drains `drainPerRound` µJ from it.
+export const roundsUntilDepletion = (drainPerRound: Map<string, number>, nodes: Node<NodeData>[]): number => {
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  let rounds = Infinity;
+  drainPerRound.forEach((energy, nodeId) => {
+    const node = nodeById.get(nodeId);
+    if (!node || energy <= 0) return;
+    rounds = Math.min(rounds, Math.floor(remainingEnergyUJ(node) / energy));
+  });
+  return rounds;
+};
+
+// Derives the metrics of sending one packet of `packetSizeBytes` along `path`
+// with up to `maxRetries` retransmissions per hop:
+//  - energy: TX + RX radio energy summed over every hop and expected attempt
+//  - latency: link latency + processing + transmission time of every expected
+//    attempt + queueing behind the packets already buffered at each forwarding
+//    node, plus the M/M/1/K waiting time when `queues` describes the offered load
+//  - delivery ratio: product of per-link success probabilities within the retry
+//    limit and, with `queues`, of not being tail-dropped at each buffer
+//  - lifetime: packets the path can carry before its most drained node runs out
+export const computePathMetrics = (
+  path: string[],
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  packetSizeBytes: number,
+  maxRetries = 0,
+  queues?: Map<string, NodeQueueState>
+): PerformanceMetricsData => {
+  const hops = pathEdges(path, edges);
+  if (path.length === 0 || !hops) return NO_PATH_METRICS;
+
+  const packetBits = bytesToBits(packetSizeBytes);
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const perPacketEnergy = nodeEnergyPerPacket(hops, packetBits, maxRetries);
+
+  let energyConsumption = 0;
+  let averageLatency = 0;
+  let deliveryRatio = 1;
+
+  perPacketEnergy.forEach(energy => {
+    energyConsumption += energy;
+  });
+
+  hops.forEach(edge => {
+    const txTime = transmissionTimeMs(packetBits, edge.data?.bandwidth ?? 0);
+    const sender = nodeById.get(edge.source);
+    const queueingDelay = (sender?.data.queueSize ?? 0) * txTime; // Packets ahead each need one service time
+    const lossProbability = linkLossProbability(edge, packetBits);
+    const queue = queues?.get(edge.source);
+    averageLatency += (edge.data?.latency ?? 0) + processingTimeMs(sender)
+      + expectedTransmissions(lossProbability, maxRetries) * txTime + queueingDelay + (queue?.waitingTimeMs ?? 0);
+    deliveryRatio *= hopSuccessProbability(lossProbability, maxRetries) * (1 - (queue?.blockingProbability ?? 0));
+  });
+
+  const networkLifetime = roundsUntilDepletion(perPacketEnergy, nodes);
+
+  return { energyConsumption, averageLatency, deliveryRatio, networkLifetime };
+};
+
+// Steady state of one node's buffer seen as an M/M/1/K queue.
+export interface NodeQueueState {
+  arrivalRate: number; // Packets per second offered to the buffer
+  serviceRate: number; // Packets per second the node can send
+  capacity: number; // K: buffer slots, including the packet being sent
+  occupancy: number; // Mean packets in the buffer
+  blockingProbability: number; // Chance an arriving packet finds the buffer full (tail drop)
+  waitingTimeMs: number; // Mean time spent queued before service starts
+}
+
+// M/M/1/K with arrival rate λ, service rate μ and K slots (ρ = λ/μ):
+//  P_K = (1 − ρ)ρ^K / (1 − ρ^(K+1)),  L = ρ/(1 − ρ) − (K+1)ρ^(K+1) / (1 − ρ^(K+1)),
+//  waiting time W_q = L / (λ(1 − P_K)) − 1/μ (Little's law).
+export const mm1kState = (arrivalRate: number, serviceRate: number, capacity: number): NodeQueueState => {
+  const base = { arrivalRate, serviceRate, capacity };
+  if (arrivalRate <= 0 || capacity <= 0) {
+    return { ...base, occupancy: 0, blockingProbability: capacity <= 0 ? 1 : 0, waitingTimeMs: 0 };
+  }
+  if (!(serviceRate > 0)) return { ...base, occupancy: capacity, blockingProbability: 1, waitingTimeMs: Infinity };
+  const rho = arrivalRate / serviceRate;
+  let occupancy: number;
+  let blockingProbability: number;
+  if (Math.abs(rho - 1) < 1e-9) {
+    occupancy = capacity / 2;
+    blockingProbability = 1 / (capacity + 1);
+  } else {
+    const rhoK1 = Math.pow(rho, capacity + 1);
+    // For ρ > 1 both ratios are evaluated in a form that stays finite for large K.
+    blockingProbability = rho < 1
+      ? (1 - rho) * Math.pow(rho, capacity) / (1 - rhoK1)
+      : (1 - 1 / rho) / (1 - Math.pow(1 / rho, capacity + 1));
+    occupancy = rho < 1
+      ? rho / (1 - rho) - (capacity + 1) * rhoK1 / (1 - rhoK1)
+      : rho / (1 - rho) + (capacity + 1) / (1 - Math.pow(1 / rho, capacity + 1));
+  }
+  const throughput = arrivalRate * (1 - blockingProbability);
+  const waitingTimeMs = Math.max(0, (occupancy / throughput - 1 / serviceRate) * 1000);
+  return { ...base, occupancy, blockingProbability, waitingTimeMs };
+};
+
+export interface FlowPath {
+  path: string[];
+  packetSizeBytes: number;
+  rate: number; // Packets per second, used to weight the flow in the aggregate
+}
+
+// Offered load and M/M/1/K steady state of every node that forwards traffic.
+// A node's service time is its processing time plus the airtime of each expected
+// attempt, averaged over the flows it sends; upstream losses are ignored.
+export const computeQueueStates = (
+  flows: FlowPath[],
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  maxRetries = 0
+): Map<string, NodeQueueState> => {
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const load = new Map<string, { rate: number; serviceMs: number }>();
+  flows.forEach(flow => {
+    const hops = flow.path.length > 1 ? pathEdges(flow.path, edges) : undefined;
+    if (!hops || flow.rate <= 0) return;
+    const packetBits = bytesToBits(flow.packetSizeBytes);
+    hops.forEach(edge => {
+      const attempts = expectedTransmissions(linkLossProbability(edge, packetBits), maxRetries);
+      const serviceMs = processingTimeMs(nodeById.get(edge.source)) + attempts * transmissionTimeMs(packetBits, edge.data?.bandwidth ?? 0);
+      const entry = load.get(edge.source) ?? { rate: 0, serviceMs: 0 };
+      entry.rate += flow.rate;
+      entry.serviceMs += flow.rate * serviceMs;
+      load.set(edge.source, entry);
+    });
+  });
+
+  const queues = new Map<string, NodeQueueState>();
+  load.forEach(({ rate, serviceMs }, nodeId) => {
+    const meanServiceMs = serviceMs / rate;
+    queues.set(nodeId, mm1kState(rate, meanServiceMs > 0 ? 1000 / meanServiceMs : Infinity, bufferCapacityOf(nodeById.get(nodeId))));
+  });
+  return queues;
+};
+
+// Aggregate analytic metrics for several flows sharing the network. Energy,
+// latency and delivery are rate-weighted averages over the flows, each seeing
+// the queueing delay and tail drop caused by the combined load; a round sends
+// one packet on every flow, so lifetime comes from the summed per-node drain.
+export const computeFlowSetMetrics = (
+  flows: FlowPath[],
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  maxRetries = 0
+): PerformanceMetricsData => {
+  const queues = computeQueueStates(flows, nodes, edges, maxRetries);
+  const drainPerRound = new Map<string, number>();
+  let totalRate = 0;
+  let routedRate = 0;
+  let energyConsumption = 0;
+  let averageLatency = 0;
+  let deliveryRatio = 0;
+
+  flows.forEach(flow => {
+    totalRate += flow.rate;
+    const hops = flow.path.length > 1 ? pathEdges(flow.path, edges) : undefined;
+    if (!hops) return;
+    const metrics = computePathMetrics(flow.path, nodes, edges, flow.packetSizeBytes, maxRetries, queues);
+    routedRate += flow.rate;
+    energyConsumption += metrics.energyConsumption * flow.rate;
+    averageLatency += metrics.averageLatency * flow.rate;
+    deliveryRatio += metrics.deliveryRatio * flow.rate;
+    nodeEnergyPerPacket(hops, bytesToBits(flow.packetSizeBytes), maxRetries).forEach((energy, nodeId) => {
+      drainPerRound.set(nodeId, (drainPerRound.get(nodeId) ?? 0) + energy);
+    });
+  });
+
+  if (routedRate === 0) return NO_PATH_METRICS;
+  return {
+    energyConsumption: energyConsumption / routedRate,
+    averageLatency: averageLatency / routedRate,
+    deliveryRatio: deliveryRatio / totalRate, // Unroutable flows deliver nothing
+    networkLifetime: roundsUntilDepletion(drainPerRound, nodes),
+  };
+};
@@ -0,0 +1,224 @@
+import type { Node, Edge } from 'reactflow';
+import type { NodeData, EdgeData, SimulationParams, PerformanceMetricsData } from '@/context/network-context';
+import { buildAdjacency, findPathDijkstra } from '@/lib/routing';
+import {
+  bytesToBits,
+  pathEdges,
+  nodeEnergyPerPacket,
+  roundsUntilDepletion,
+  computePathMetrics,
+  computeQueueStates,
+  computeFlowSetMetrics,
+  NO_PATH_METRICS,
+  type FlowPath,
+} from '@/lib/metrics-model';
+
+export type DisjointMode = 'node' | 'edge';
+
+// 'split' sends each packet down one path in turn; 'duplicate' sends a copy down every path.
+export type MultipathStrategy = 'split' | 'duplicate';
+
+export interface MultipathRoute {
+  path: string[];
+  metrics: PerformanceMetricsData; // One packet on this path under the strategy's load
+}
+
+export interface MultipathResult {
+  mode: DisjointMode;
+  strategy: MultipathStrategy;
+  routes: MultipathRoute[]; // Sorted by latency
+  metrics: PerformanceMetricsData; // Per packet sent by the source
+  singlePath: string[]; // Minimum-latency route used as the baseline
+  singlePathMetrics: PerformanceMetricsData;
+  deliveryGain: number; // Multipath minus single-path delivery ratio
+}
+
+interface Arc {
+  to: number;
+  capacity: number;
+  cost: number;
+  reverse: number; // Index of the paired arc in `graph[to]`
+}
+
+// Maximum set of node- or edge-disjoint source → target paths, found as a
+// unit-capacity max-flow. Node-disjointness splits every relay into an in/out
+// pair joined by a capacity-1 arc; parallel links between the same two nodes
+// count as one. Each augmentation follows the cheapest residual path by link
+// latency, so of all maximum sets the one with least total latency is returned.
+export const findDisjointPaths = (
+  sourceId: string,
+  targetId: string,
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  mode: DisjointMode
+): string[][] => {
+  const adjacency = buildAdjacency(nodes, edges);
+  if (!adjacency.has(sourceId) || !adjacency.has(targetId) || sourceId === targetId) return [];
+
+  const ids = Array.from(adjacency.keys());
+  const index = new Map(ids.map((id, idx) => [id, idx]));
+  const inOf = (id: string) => 2 * index.get(id)!;
+  const outOf = (id: string) => 2 * index.get(id)! + 1;
+  const graph: Arc[][] = Array.from({ length: 2 * ids.length }, () => []);
+  const addArc = (from: number, to: number, capacity: number, cost: number) => {
+    graph[from].push({ to, capacity, cost, reverse: graph[to].length });
+    graph[to].push({ to: from, capacity: 0, cost: -cost, reverse: graph[from].length - 1 });
+  };
+
+  ids.forEach(id => {
+    const throughCapacity = mode === 'node' && id !== sourceId && id !== targetId ? 1 : ids.length;
+    addArc(inOf(id), outOf(id), throughCapacity, 0);
+  });
+  const links = new Map<string, { from: string; to: string; latency: number }>();
+  adjacency.forEach(outgoing => outgoing.forEach(edge => {
+    const key = `${edge.source}>${edge.target}`;
+    const latency = edge.data?.latency ?? 0;
+    if (latency < (links.get(key)?.latency ?? Infinity)) links.set(key, { from: edge.source, to: edge.target, latency });
+  }));
+  const linkArcs = Array.from(links.values()).map(({ from, to, latency }) => {
+    addArc(outOf(from), inOf(to), 1, latency);
+    return { from, to, arc: graph[outOf(from)][graph[outOf(from)].length - 1] };
+  });
+
+  const start = outOf(sourceId);
+  const sink = inOf(targetId);
+  for (;;) {
+    // Bellman-Ford on the residual graph; reverse arcs carry negative costs.
+    const distance = new Array<number>(graph.length).fill(Infinity);
+    const via = new Array<{ node: number; arc: number } | undefined>(graph.length);
+    distance[start] = 0;
+    for (let round = 0; round < graph.length - 1; round++) {
+      let relaxed = false;
+      graph.forEach((arcs, node) => {
+        if (distance[node] === Infinity) return;
+        arcs.forEach((arc, arcIdx) => {
+          if (arc.capacity > 0 && distance[node] + arc.cost < distance[arc.to]) {
+            distance[arc.to] = distance[node] + arc.cost;
+            via[arc.to] = { node, arc: arcIdx };
+            relaxed = true;
+          }
+        });
+      });
+      if (!relaxed) break;
+    }
+    if (distance[sink] === Infinity) break;
+    for (let node = sink; node !== start; node = via[node]!.node) {
+      const arc = graph[via[node]!.node][via[node]!.arc];
+      arc.capacity -= 1;
+      graph[node][arc.reverse].capacity += 1;
+    }
+  }
+
+  // Decompose the flow: walk the saturated links from the source, using each once.
+  const flowOut = new Map<string, string[]>();
+  linkArcs.filter(({ arc }) => arc.capacity === 0).forEach(({ from, to }) => {
+    flowOut.set(from, [...(flowOut.get(from) ?? []), to]);
+  });
+  const paths: string[][] = [];
+  while ((flowOut.get(sourceId) ?? []).length > 0) {
+    const path = [sourceId];
+    while (path[path.length - 1] !== targetId) {
+      const next = flowOut.get(path[path.length - 1])!.shift()!;
+      // A zero-latency cycle in the flow is cut out to keep the path simple.
+      const seenAt = path.indexOf(next);
+      if (seenAt >= 0) path.splice(seenAt + 1);
+      else path.push(next);
+    }
+    paths.push(path);
+  }
+
+  const latencyOf = (path: string[]) => (pathEdges(path, edges) ?? []).reduce((sum, edge) => sum + (edge.data?.latency ?? 0), 0);
+  return paths.sort((a, b) => latencyOf(a) - latencyOf(b));
+};
+
+// Analytic metrics of routing the source's traffic over disjoint `paths`.
+// Splitting gives each path an equal share of the rate and a packet arrives
+// if its own path delivers it. Duplicating loads every path with the full rate
+// and a packet arrives if any copy does, at the latency of the fastest copy
+// that gets through; it costs the energy of all copies.
+export const evaluateMultipath = (
+  paths: string[][],
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  params: SimulationParams,
+  strategy: MultipathStrategy
+): { routes: MultipathRoute[]; metrics: PerformanceMetricsData } => {
+  const { packetSize, packetRate, maxRetries } = params;
+  if (paths.length === 0) return { routes: [], metrics: NO_PATH_METRICS };
+
+  const shareRate = strategy === 'split' ? packetRate / paths.length : packetRate;
+  const flows: FlowPath[] = paths.map(path => ({ path, packetSizeBytes: packetSize, rate: shareRate }));
+  const queues = computeQueueStates(flows, nodes, edges, maxRetries);
+  const routes = paths.map(path => ({ path, metrics: computePathMetrics(path, nodes, edges, packetSize, maxRetries, queues) }));
+
+  // Per-node drain of one source packet: a share of one path's drain, or every copy's.
+  const drainPerPacket = new Map<string, number>();
+  const drainShare = strategy === 'split' ? 1 / paths.length : 1;
+  paths.forEach(path => {
+    nodeEnergyPerPacket(pathEdges(path, edges)!, bytesToBits(packetSize), maxRetries).forEach((energy, nodeId) => {
+      drainPerPacket.set(nodeId, (drainPerPacket.get(nodeId) ?? 0) + energy * drainShare);
+    });
+  });
+  const networkLifetime = roundsUntilDepletion(drainPerPacket, nodes);
+
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  if (strategy === 'split') {
+    const deliveryRatio = sum(routes.map(route => route.metrics.deliveryRatio)) / routes.length;
+    return {
+      routes,
+      metrics: {
+        energyConsumption: sum(routes.map(route => route.metrics.energyConsumption)) / routes.length,
+        averageLatency: deliveryRatio > 0
+          ? sum(routes.map(route => route.metrics.averageLatency * route.metrics.deliveryRatio)) / sum(routes.map(route => route.metrics.deliveryRatio))
+          : Infinity,
+        deliveryRatio,
+        networkLifetime,
+      },
+    };
+  }
+
+  // Copies are independent; the fastest surviving copy sets the latency.
+  let allLost = 1;
+  let latencyWeight = 0;
+  [...routes].sort((a, b) => a.metrics.averageLatency - b.metrics.averageLatency).forEach(route => {
+    latencyWeight += route.metrics.averageLatency * route.metrics.deliveryRatio * allLost;
+    allLost *= 1 - route.metrics.deliveryRatio;
+  });
+  const deliveryRatio = 1 - allLost;
+  return {
+    routes,
+    metrics: {
+      energyConsumption: sum(routes.map(route => route.metrics.energyConsumption)),
+      averageLatency: deliveryRatio > 0 ? latencyWeight / deliveryRatio : Infinity,
+      deliveryRatio,
+      networkLifetime,
+    },
+  };
+};
+
+// Disjoint paths for the source/target pair and their gain in delivery ratio
+// over sending everything down the single minimum-latency route.
+export const analyzeMultipath = (
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  params: SimulationParams,
+  mode: DisjointMode,
+  strategy: MultipathStrategy
+): MultipathResult => {
+  const { sourceNode, targetNode, packetSize, packetRate, maxRetries } = params;
+  const paths = sourceNode && targetNode ? findDisjointPaths(sourceNode, targetNode, nodes, edges, mode) : [];
+  const { routes, metrics } = evaluateMultipath(paths, nodes, edges, params, strategy);
+  const singlePath = sourceNode && targetNode ? findPathDijkstra(sourceNode, targetNode, nodes, edges).path : [];
+  const singlePathMetrics = singlePath.length > 1
+    ? computeFlowSetMetrics([{ path: singlePath, packetSizeBytes: packetSize, rate: packetRate }], nodes, edges, maxRetries)
+    : NO_PATH_METRICS;
+  return {
+    mode,
+    strategy,
+    routes,
+    metrics,
+    singlePath,
+    singlePathMetrics,
+    deliveryGain: metrics.deliveryRatio - singlePathMetrics.deliveryRatio,
+  };
+};
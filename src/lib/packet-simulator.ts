@@ -0,0 +1,320 @@
+import type { Node, Edge } from 'reactflow';
+import type { NodeData, EdgeData, PerformanceMetricsData } from '@/context/network-context';
+import { MinPriorityQueue } from '@/lib/priority-queue';
+import { exponentialSample, type Rng } from '@/lib/random';
+import { createArrivalProcess, type TrafficSource } from '@/lib/traffic-generator';
+import {
+  bytesToBits,
+  transmissionTimeMs,
+  txEnergyUJ,
+  rxEnergyUJ,
+  linkLossProbability,
+  remainingEnergyUJ,
+  NO_PATH_METRICS,
+  processingTimeMs,
+} from '@/lib/metrics-model';
+
+// A stream of packets injected at path[0] and forwarded hop by hop to the last node.
+export interface PacketFlow {
+  id: string;
+  path: string[];
+  traffic: TrafficSource;
+  packetSizeBytes: number;
+  priority: number; // Higher is served first at every shared buffer
+}
+
+export interface PacketHop {
+  nodeId: string;
+  arrivedAt: number;
+  departedAt?: number;
+}
+
+export type PacketStatus = 'delivered' | 'dropped' | 'in-flight';
+export type DropReason = 'overflow' | 'link-loss';
+
+export interface PacketRecord {
+  id: number;
+  flowId: string;
+  createdAt: number;
+  hops: PacketHop[];
+  status: PacketStatus;
+  deliveredAt?: number;
+  droppedAt?: number;
+  dropNodeId?: string;
+  dropReason?: DropReason;
+  lostTowardsNodeId?: string; // Intended receiver of a transmission lost on the link
+  retransmissions: number; // ARQ repeats over all hops
+}
+
+export interface QueueSample {
+  time: number;
+  nodeId: string;
+  length: number;
+}
+
+export interface EnergySample {
+  time: number;
+  nodeId: string;
+  flowId: string;
+  energy: number; // µJ spent at `time`
+}
+
+export interface PacketTrace {
+  durationMs: number;
+  endTime: number; // Time of the last event, once every queue has drained
+  packets: PacketRecord[];
+  generated: number;
+  delivered: number;
+  dropped: number;
+  retransmissions: number;
+  energyByNode: Record<string, number>; // µJ spent per node over the run
+  queueSizesAtDuration: Record<string, number>; // Buffer occupancy when the sources stop, before the drain
+  queueLog: QueueSample[]; // Every change in buffer occupancy, in time order
+  energyLog: EnergySample[];
+}
+
+export interface PacketSimulationOptions {
+  durationMs: number; // Sources stop injecting after this; queued packets still drain
+  bufferCapacity: number; // For nodes without their own NodeData.bufferCapacity
+  maxRetries: number; // ARQ retransmissions per hop before a lost packet is dropped
+  rng: Rng;
+}
+
+interface QueuedPacket {
+  record?: PacketRecord; // Undefined for background backlog taken from NodeData.queueSize
+  flow?: PacketFlow;
+  hopIndex: number; // Index of the current node in flow.path
+  attempts: number; // Transmissions of this packet on the current hop so far
+}
+
+interface NodeRuntime {
+  queue: QueuedPacket[];
+  busy: boolean;
+  backgroundServiceMs: number;
+  capacity: number;
+  processingMs: number; // Mean of the exponential per-packet processing time
+}
+
+type SimEvent =
+  | { kind: 'generate'; flow: PacketFlow }
+  | { kind: 'transmitted'; nodeId: string; item: QueuedPacket }
+  | { kind: 'arrive'; nodeId: string; item: QueuedPacket };
+
+// Discrete-event, packet-level simulation. All flows run at once over shared
+// nodes and links. Each node owns a buffer served by one transmitter in
+// priority order (FIFO within a priority); a packet occupies the node for an
+// exponential processing time (mean 1 / service rate) plus its airtime on the
+// outgoing link, then reaches the next node after the link latency. Packets
+// arriving at a full buffer are tail-dropped, and every
+// transmission can be lost with the link's loss probability; a lost packet is
+// sent again straight away until the retry limit is used up.
+export const runPacketSimulation = (
+  flows: PacketFlow[],
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  options: PacketSimulationOptions
+): PacketTrace => {
+  const { durationMs, bufferCapacity, maxRetries, rng } = options;
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const edgeByHop = new Map(edges.map(e => [`${e.source}->${e.target}`, e]));
+  const events = new MinPriorityQueue<SimEvent>();
+  const packets: PacketRecord[] = [];
+  const energyByNode: Record<string, number> = {};
+  const runtimes = new Map<string, NodeRuntime>();
+  const queueLog: QueueSample[] = [];
+  const energyLog: EnergySample[] = [];
+  let endTime = 0;
+
+  const spend = (nodeId: string, flowId: string, energy: number, now: number) => {
+    energyByNode[nodeId] = (energyByNode[nodeId] ?? 0) + energy;
+    energyLog.push({ time: now, nodeId, flowId, energy });
+  };
+
+  const logQueue = (nodeId: string, now: number) => {
+    queueLog.push({ time: now, nodeId, length: runtimes.get(nodeId)!.queue.length });
+  };
+
+  // Pre-existing backlog: NodeData.queueSize packets of cross traffic sit ahead of
+  // ours and are served at the node's average outgoing link speed.
+  nodes.forEach(node => {
+    if (node.data.isFailed) return;
+    const outgoing = edges.filter(e => e.source === node.id);
+    const avgBandwidth = outgoing.length > 0
+      ? outgoing.reduce((sum, e) => sum + (e.data?.bandwidth ?? 0), 0) / outgoing.length
+      : 0;
+    const packetBits = bytesToBits(flows[0]?.packetSizeBytes ?? 0);
+    const capacity = node.data.bufferCapacity ?? bufferCapacity;
+    const backlog = Math.min(node.data.queueSize, capacity);
+    runtimes.set(node.id, {
+      queue: Array.from({ length: avgBandwidth > 0 ? backlog : 0 }, () => ({ hopIndex: 0, attempts: 0 })),
+      busy: false,
+      backgroundServiceMs: transmissionTimeMs(packetBits, avgBandwidth),
+      capacity,
+      processingMs: processingTimeMs(node),
+    });
+    logQueue(node.id, 0);
+  });
+
+  const startService = (nodeId: string, now: number) => {
+    const runtime = runtimes.get(nodeId)!;
+    if (runtime.busy || runtime.queue.length === 0) return;
+    const item = runtime.queue[0];
+    runtime.busy = true;
+    const processing = runtime.processingMs > 0 ? exponentialSample(rng, runtime.processingMs) : 0;
+    if (!item.flow || !item.record) {
+      events.push({ kind: 'transmitted', nodeId, item }, now + processing + runtime.backgroundServiceMs);
+      return;
+    }
+    const nextId = item.flow.path[item.hopIndex + 1];
+    const edge = edgeByHop.get(`${nodeId}->${nextId}`)!;
+    const packetBits = bytesToBits(item.flow.packetSizeBytes);
+    const bandwidth = edge.data?.bandwidth ?? 0;
+    item.record.hops[item.record.hops.length - 1].departedAt = now;
+    spend(nodeId, item.flow.id, txEnergyUJ(packetBits, bandwidth), now);
+    events.push({ kind: 'transmitted', nodeId, item }, now + processing + transmissionTimeMs(packetBits, bandwidth));
+  };
+
+  const enqueue = (nodeId: string, item: QueuedPacket, now: number) => {
+    const runtime = runtimes.get(nodeId);
+    const record = item.record!;
+    if (!runtime || runtime.queue.length >= runtime.capacity) {
+      record.status = 'dropped';
+      record.droppedAt = now;
+      record.dropNodeId = nodeId;
+      record.dropReason = 'overflow';
+      return;
+    }
+    // Insert behind everything of equal or higher priority, never ahead of the
+    // packet on air or the pre-existing backlog.
+    let position = runtime.queue.length;
+    while (position > (runtime.busy ? 1 : 0) && (runtime.queue[position - 1].flow?.priority ?? Infinity) < item.flow!.priority) {
+      position--;
+    }
+    runtime.queue.splice(position, 0, item);
+    logQueue(nodeId, now);
+    startService(nodeId, now);
+  };
+
+  const arrivals = new Map(flows.map(flow => [flow.id, createArrivalProcess(flow.traffic, rng)]));
+  flows.forEach(flow => {
+    const first = arrivals.get(flow.id)!();
+    if (flow.path.length > 1 && first < durationMs) events.push({ kind: 'generate', flow }, first);
+  });
+
+  const queueSizes = () => Object.fromEntries(Array.from(runtimes, ([nodeId, runtime]) => [nodeId, runtime.queue.length]));
+  let queueSizesAtDuration: Record<string, number> | null = null;
+
+  while (!events.isEmpty()) {
+    const { value: event, priority: now } = events.pop()!;
+    if (now >= durationMs && !queueSizesAtDuration) queueSizesAtDuration = queueSizes();
+    endTime = now;
+
+    if (event.kind === 'generate') {
+      const { flow } = event;
+      const record: PacketRecord = {
+        id: packets.length,
+        flowId: flow.id,
+        createdAt: now,
+        hops: [{ nodeId: flow.path[0], arrivedAt: now }],
+        status: 'in-flight',
+        retransmissions: 0,
+      };
+      packets.push(record);
+      enqueue(flow.path[0], { record, flow, hopIndex: 0, attempts: 0 }, now);
+      const next = arrivals.get(flow.id)!();
+      if (next < durationMs) events.push({ kind: 'generate', flow }, next);
+    } else if (event.kind === 'transmitted') {
+      const { nodeId, item } = event;
+      const runtime = runtimes.get(nodeId)!;
+      runtime.queue.shift();
+      runtime.busy = false;
+      logQueue(nodeId, now);
+      if (item.flow && item.record) {
+        const nextId = item.flow.path[item.hopIndex + 1];
+        const edge = edgeByHop.get(`${nodeId}->${nextId}`)!;
+        const packetBits = bytesToBits(item.flow.packetSizeBytes);
+        spend(nextId, item.flow.id, rxEnergyUJ(packetBits, edge.data?.bandwidth ?? 0), now);
+        const lost = rng() < linkLossProbability(edge, packetBits);
+        if (lost && item.attempts < maxRetries) {
+          // Retransmit ahead of everything else in the sender's buffer.
+          item.attempts++;
+          item.record.retransmissions++;
+          runtime.queue.unshift(item);
+          logQueue(nodeId, now);
+        } else if (lost) {
+          item.record.status = 'dropped';
+          item.record.droppedAt = now;
+          item.record.dropNodeId = nodeId;
+          item.record.dropReason = 'link-loss';
+          item.record.lostTowardsNodeId = nextId;
+        } else {
+          events.push(
+            { kind: 'arrive', nodeId: nextId, item: { ...item, hopIndex: item.hopIndex + 1, attempts: 0 } },
+            now + (edge.data?.latency ?? 0)
+          );
+        }
+      }
+      startService(nodeId, now);
+    } else {
+      const { nodeId, item } = event;
+      const record = item.record!;
+      record.hops.push({ nodeId, arrivedAt: now });
+      if (item.hopIndex === item.flow!.path.length - 1) {
+        record.status = 'delivered';
+        record.deliveredAt = now;
+      } else {
+        enqueue(nodeId, item, now);
+      }
+    }
+  }
+
+  return {
+    durationMs,
+    endTime,
+    packets,
+    generated: packets.length,
+    delivered: packets.filter(p => p.status === 'delivered').length,
+    dropped: packets.filter(p => p.status === 'dropped').length,
+    retransmissions: packets.reduce((sum, p) => sum + p.retransmissions, 0),
+    energyByNode,
+    queueSizesAtDuration: queueSizesAtDuration ?? queueSizes(),
+    queueLog,
+    energyLog,
+  };
+};
+
+// Aggregates a packet trace into the same metrics the analytic model reports,
+// either over all flows or for the single flow `flowId`.
+export const metricsFromTrace = (
+  trace: PacketTrace,
+  nodes: Node<NodeData>[],
+  flowId?: string
+): PerformanceMetricsData => {
+  const packets = flowId === undefined ? trace.packets : trace.packets.filter(p => p.flowId === flowId);
+  if (packets.length === 0) return NO_PATH_METRICS;
+
+  const delivered = packets.filter(p => p.status === 'delivered');
+  const energyByNode: Record<string, number> = {};
+  trace.energyLog.forEach(sample => {
+    if (flowId !== undefined && sample.flowId !== flowId) return;
+    energyByNode[sample.nodeId] = (energyByNode[sample.nodeId] ?? 0) + sample.energy;
+  });
+  const totalEnergy = Object.values(energyByNode).reduce((sum, e) => sum + e, 0);
+
+  let networkLifetime = Infinity;
+  nodes.forEach(node => {
+    const spent = energyByNode[node.id];
+    if (!spent) return;
+    const perPacket = spent / packets.length;
+    networkLifetime = Math.min(networkLifetime, Math.floor(remainingEnergyUJ(node) / perPacket));
+  });
+
+  return {
+    energyConsumption: totalEnergy / packets.length,
+    averageLatency: delivered.length > 0
+      ? delivered.reduce((sum, p) => sum + (p.deliveredAt! - p.createdAt), 0) / delivered.length
+      : Infinity,
+    deliveryRatio: delivered.length / packets.length,
+    networkLifetime,
+  };
+};
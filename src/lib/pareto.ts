@@ -0,0 +1,80 @@
+import type { Node, Edge } from 'reactflow';
+import type { NodeData, EdgeData } from '@/context/network-context';
+import { MinPriorityQueue } from '@/lib/priority-queue';
+import { buildAdjacency } from '@/lib/routing';
+import { computePathMetrics } from '@/lib/metrics-model';
+
+const MAX_LABELS = 20_000; // Bound on the search on dense topologies
+
+// A route scored on three conflicting objectives.
+export interface ParetoPath {
+  path: string[];
+  latency: number; // ms, minimized
+  energy: number; // µJ per packet, minimized
+  minBattery: number; // Weakest relay battery on the route (%), maximized; 100 with no relays
+}
+
+// `a` is at least as good as `b` on every objective and strictly better on one.
+export const dominates = (a: ParetoPath, b: ParetoPath): boolean =>
+  a.latency <= b.latency && a.energy <= b.energy && a.minBattery >= b.minBattery &&
+  (a.latency < b.latency || a.energy < b.energy || a.minBattery > b.minBattery);
+
+// Multi-objective label-setting search: every node keeps the non-dominated
+// partial routes (labels) that reach it, and labels are extended in order of
+// latency. Latency and energy add up per hop using the same model as
+// `computePathMetrics`; battery health is the bottleneck (minimum) battery of
+// the relays, since source and target are shared by every route.
+// Returns the non-dominated source → target routes sorted by latency.
+export const findParetoPaths = (
+  sourceId: string,
+  targetId: string,
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  packetSizeBytes: number,
+  maxRetries = 0
+): ParetoPath[] => {
+  const adjacency = buildAdjacency(nodes, edges);
+  if (!adjacency.has(sourceId) || !adjacency.has(targetId) || sourceId === targetId) return [];
+
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const hopCost = new Map<string, { latency: number; energy: number }>();
+  edges.forEach(edge => {
+    const metrics = computePathMetrics([edge.source, edge.target], nodes, edges, packetSizeBytes, maxRetries);
+    hopCost.set(edge.id, { latency: metrics.averageLatency, energy: metrics.energyConsumption });
+  });
+
+  const labelsAt = new Map<string, ParetoPath[]>();
+  const queue = new MinPriorityQueue<ParetoPath>();
+  const start: ParetoPath = { path: [sourceId], latency: 0, energy: 0, minBattery: 100 };
+  labelsAt.set(sourceId, [start]);
+  queue.push(start, 0);
+  let created = 1;
+
+  while (!queue.isEmpty() && created < MAX_LABELS) {
+    const label = queue.pop()!.value;
+    const nodeId = label.path[label.path.length - 1];
+    // Skip labels that a later, better label at the same node has replaced.
+    if (!labelsAt.get(nodeId)?.includes(label) || nodeId === targetId) continue;
+
+    for (const edge of adjacency.get(nodeId) ?? []) {
+      if (label.path.includes(edge.target)) continue; // Simple paths only
+      const cost = hopCost.get(edge.id)!;
+      if (!Number.isFinite(cost.latency) || !Number.isFinite(cost.energy)) continue;
+      const extended: ParetoPath = {
+        path: [...label.path, edge.target],
+        latency: label.latency + cost.latency,
+        energy: label.energy + cost.energy,
+        minBattery: edge.target === targetId ? label.minBattery : Math.min(label.minBattery, nodeById.get(edge.target)!.data.battery),
+      };
+      const existing = labelsAt.get(edge.target) ?? [];
+      if (existing.some(other => dominates(other, extended) || (
+        other.latency === extended.latency && other.energy === extended.energy && other.minBattery === extended.minBattery
+      ))) continue;
+      labelsAt.set(edge.target, [...existing.filter(other => !dominates(extended, other)), extended]);
+      queue.push(extended, extended.latency);
+      created++;
+    }
+  }
+
+  return [...(labelsAt.get(targetId) ?? [])].sort((a, b) => a.latency - b.latency);
+};
@@ -0,0 +1,56 @@
+// Binary min-heap keyed by a numeric priority. Used by the shortest-path
+// searches and the discrete-event schedulers.
+export class MinPriorityQueue<T> {
+  private heap: { priority: number; value: T }[] = [];
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  isEmpty(): boolean {
+    return this.heap.length === 0;
+  }
+
+  push(value: T, priority: number): void {
+    this.heap.push({ priority, value });
+    this.bubbleUp(this.heap.length - 1);
+  }
+
+  peekPriority(): number | undefined {
+    return this.heap[0]?.priority;
+  }
+
+  pop(): { priority: number; value: T } | undefined {
+    if (this.heap.length === 0) return undefined;
+    const top = this.heap[0];
+    const last = this.heap.pop()!;
+    if (this.heap.length > 0) {
+      this.heap[0] = last;
+      this.sinkDown(0);
+    }
+    return top;
+  }
+
+  private bubbleUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.heap[parent].priority <= this.heap[index].priority) break;
+      [this.heap[parent], this.heap[index]] = [this.heap[index], this.heap[parent]];
+      index = parent;
+    }
+  }
+
+  private sinkDown(index: number): void {
+    const length = this.heap.length;
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < length && this.heap[left].priority < this.heap[smallest].priority) smallest = left;
+      if (right < length && this.heap[right].priority < this.heap[smallest].priority) smallest = right;
+      if (smallest === index) break;
+      [this.heap[smallest], this.heap[index]] = [this.heap[index], this.heap[smallest]];
+      index = smallest;
+    }
+  }
+}
@@ -0,0 +1,21 @@
+// Seeded pseudo-random number generation so simulation runs are reproducible.
+
+export type Rng = () => number;
+
+// mulberry32: small, fast 32-bit generator returning floats in [0, 1).
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fresh seed for the "randomize" action; the only place Math.random is used.
+export const generateSeed = (): number => Math.floor(Math.random() * 1_000_000);
+
+// Exponentially distributed sample with the given mean (inverse-CDF method).
+export const exponentialSample = (rng: Rng, mean: number): number => -mean * Math.log(1 - rng());
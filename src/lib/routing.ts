@@ -0,0 +1,181 @@
+import type { Node, Edge } from 'reactflow';
+import type { NodeData, EdgeData, SimulationParams } from '@/context/network-context';
+import { MinPriorityQueue } from '@/lib/priority-queue';
+
+export interface PathResult {
+  path: string[];
+  cost: number;
+}
+
+// Cost of traversing `edge` from `fromNode` into `toNode`.
+export type EdgeCostFn = (
+  edge: Edge<EdgeData>,
+  fromNode: Node<NodeData>,
+  toNode: Node<NodeData>
+) => number;
+
+export const latencyCost: EdgeCostFn = (edge) => edge.data?.latency ?? 0;
+
+const NO_PATH: PathResult = { path: [], cost: Infinity };
+
+// Directed adjacency list over non-failed nodes; edges touching a failed node are dropped.
+export const buildAdjacency = (
+  allNodes: Node<NodeData>[],
+  allEdges: Edge<EdgeData>[]
+): Map<string, Edge<EdgeData>[]> => {
+  const adjacency = new Map<string, Edge<EdgeData>[]>();
+  allNodes.forEach(node => {
+    if (!node.data.isFailed) adjacency.set(node.id, []);
+  });
+  allEdges.forEach(edge => {
+    if (adjacency.has(edge.source) && adjacency.has(edge.target)) {
+      adjacency.get(edge.source)!.push(edge);
+    }
+  });
+  return adjacency;
+};
+
+// Walks a predecessor map back from the target.
+export const reconstructPath = (
+  previous: Map<string, string>,
+  sourceId: string,
+  targetId: string
+): string[] => {
+  const path = [targetId];
+  let current = targetId;
+  while (current !== sourceId) {
+    const prev = previous.get(current);
+    if (prev === undefined) return [];
+    path.unshift(prev);
+    current = prev;
+  }
+  return path;
+};
+
+// Priority-queue Dijkstra. Edge costs must be non-negative.
+export const findPathDijkstra = (
+  sourceId: string,
+  targetId: string,
+  allNodes: Node<NodeData>[],
+  allEdges: Edge<EdgeData>[],
+  edgeCost: EdgeCostFn = latencyCost
+): PathResult => {
+  const adjacency = buildAdjacency(allNodes, allEdges);
+  if (!adjacency.has(sourceId) || !adjacency.has(targetId)) return NO_PATH;
+  if (sourceId === targetId) return { path: [sourceId], cost: 0 };
+
+  const nodeById = new Map(allNodes.map(n => [n.id, n]));
+  const distances = new Map<string, number>([[sourceId, 0]]);
+  const previous = new Map<string, string>();
+  const settled = new Set<string>();
+  const queue = new MinPriorityQueue<string>();
+  queue.push(sourceId, 0);
+
+  while (!queue.isEmpty()) {
+    const { value: currentId, priority: currentDistance } = queue.pop()!;
+    if (settled.has(currentId)) continue;
+    settled.add(currentId);
+    if (currentId === targetId) break;
+
+    const currentNode = nodeById.get(currentId)!;
+    for (const edge of adjacency.get(currentId) || []) {
+      if (settled.has(edge.target)) continue;
+      const candidate = currentDistance + edgeCost(edge, currentNode, nodeById.get(edge.target)!);
+      if (candidate < (distances.get(edge.target) ?? Infinity)) {
+        distances.set(edge.target, candidate);
+        previous.set(edge.target, currentId);
+        queue.push(edge.target, candidate);
+      }
+    }
+  }
+
+  if (!settled.has(targetId)) return NO_PATH;
+  return { path: reconstructPath(previous, sourceId, targetId), cost: distances.get(targetId)! };
+};
+
+// Latency minus any energy-harvesting reward on the link; may be negative.
+export const harvestAwareCost: EdgeCostFn = (edge) =>
+  (edge.data?.latency ?? 0) - (edge.data?.harvestReward ?? 0);
+
+export interface BellmanFordResult extends PathResult {
+  negativeCycle?: string[]; // Closed node sequence (first === last) when one is reachable from the source
+}
+
+// Bellman-Ford relaxation over the directed edge set. Supports negative edge
+// costs and reports a negative cycle reachable from the source instead of a path.
+export const findPathBellmanFord = (
+  sourceId: string,
+  targetId: string,
+  allNodes: Node<NodeData>[],
+  allEdges: Edge<EdgeData>[],
+  edgeCost: EdgeCostFn = harvestAwareCost
+): BellmanFordResult => {
+  const adjacency = buildAdjacency(allNodes, allEdges);
+  if (!adjacency.has(sourceId) || !adjacency.has(targetId)) return NO_PATH;
+
+  const nodeById = new Map(allNodes.map(n => [n.id, n]));
+  const activeEdges = Array.from(adjacency.values()).flat();
+  const costs = activeEdges.map(edge =>
+    edgeCost(edge, nodeById.get(edge.source)!, nodeById.get(edge.target)!)
+  );
+  const distances = new Map<string, number>([[sourceId, 0]]);
+  const previous = new Map<string, string>();
+
+  for (let i = 0; i < adjacency.size - 1; i++) {
+    let relaxed = false;
+    activeEdges.forEach((edge, idx) => {
+      const fromDistance = distances.get(edge.source);
+      if (fromDistance === undefined) return;
+      const candidate = fromDistance + costs[idx];
+      if (candidate < (distances.get(edge.target) ?? Infinity)) {
+        distances.set(edge.target, candidate);
+        previous.set(edge.target, edge.source);
+        relaxed = true;
+      }
+    });
+    if (!relaxed) break;
+  }
+
+  // One more pass: any further improvement means a negative cycle.
+  for (let idx = 0; idx < activeEdges.length; idx++) {
+    const edge = activeEdges[idx];
+    const fromDistance = distances.get(edge.source);
+    if (fromDistance === undefined) continue;
+    if (fromDistance + costs[idx] < (distances.get(edge.target) ?? Infinity)) {
+      previous.set(edge.target, edge.source);
+      // Step back |V| times to be sure we are standing on the cycle itself.
+      let onCycle = edge.target;
+      for (let i = 0; i < adjacency.size; i++) onCycle = previous.get(onCycle)!;
+      const cycle = [onCycle];
+      let current = previous.get(onCycle)!;
+      while (current !== onCycle) {
+        cycle.unshift(current);
+        current = previous.get(current)!;
+      }
+      cycle.unshift(onCycle);
+      return { path: [], cost: -Infinity, negativeCycle: cycle };
+    }
+  }
+
+  if (!distances.has(targetId)) return NO_PATH;
+  return { path: reconstructPath(previous, sourceId, targetId), cost: distances.get(targetId)! };
+};
+
+export interface PerceivedNodeState {
+  battery: number;
+  queueSize: number;
+}
+
+// Composite per-hop cost for the adaptive algorithm: α·latency of the link plus
+// β·battery unhealthiness and γ·queue size of the node being entered. `perceived`
+// overrides the stored node state (e.g. with measurement noise).
+export const createAdaptiveCost = (
+  weights: SimulationParams['weights'],
+  perceived?: Map<string, PerceivedNodeState>
+): EdgeCostFn => (edge, _fromNode, toNode) => {
+  const state = perceived?.get(toNode.id) ?? toNode.data;
+  const latencyCost = weights.alpha * (edge.data?.latency ?? 0);
+  const batteryCost = weights.beta * (100 - state.battery);
+  const queueCost = weights.gamma * state.queueSize;
+  return latencyCost + batteryCost + queueCost;
+};
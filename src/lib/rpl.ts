@@ -0,0 +1,292 @@
+import type { Node, Edge } from 'reactflow';
+import type { NodeData, EdgeData } from '@/context/network-context';
+import { MinPriorityQueue } from '@/lib/priority-queue';
+import { bytesToBits, linkLossProbability } from '@/lib/metrics-model';
+import { controlNeighbours, broadcastReceptions, type ControlLinks } from '@/lib/control-plane';
+
+// 'hop' is OF0 with one MinHopRankIncrease per hop; 'etx' scales it by the
+// expected transmissions over the link (MRHOF); 'energy' by how drained the
+// parent's battery is, steering traffic away from nodes about to die.
+export type RplObjective = 'hop' | 'etx' | 'energy';
+
+export const MIN_HOP_RANK_INCREASE = 256; // Also the rank of a DODAG root
+const DIO_BYTES = 24; // DIO base object with one DODAG configuration option
+const ETX_PROBE_BITS = bytesToBits(127); // A full 802.15.4 frame
+const MAX_ENERGY_PENALTY = 10; // Rank increase factor at an empty battery
+
+export interface RplEvent {
+  kind: 'build' | 'local-repair' | 'global-repair';
+  version: number; // DODAG version after the event
+  newlyFailed: string[]; // Nodes of the previous DODAG found down
+  dioMessages: number;
+  controlBytes: number;
+  signalingEnergy: number; // µJ spent sending and receiving DIOs
+  convergenceTimeMs: number; // Last time a node changed rank
+  parentChanges: number; // Nodes that joined, left or switched parent
+}
+
+export interface RplState {
+  objective: RplObjective;
+  version: number; // Bumped by the roots on a global repair
+  ranks: Record<string, number>; // Attached nodes only
+  parents: Record<string, string | null>; // Preferred parent; null for the roots
+  detached: string[]; // Active nodes with no route to any root
+  history: RplEvent[];
+}
+
+// Rank a node gets through `parent` over `edge` (node → parent), or Infinity
+// if the link cannot carry traffic.
+const rankIncrease = (objective: RplObjective, edge: Edge<EdgeData>, parent: Node<NodeData>): number => {
+  if (objective === 'hop') return MIN_HOP_RANK_INCREASE;
+  if (objective === 'etx') {
+    const loss = linkLossProbability(edge, ETX_PROBE_BITS);
+    return loss >= 1 ? Infinity : Math.round(MIN_HOP_RANK_INCREASE / (1 - loss));
+  }
+  return Math.round(MIN_HOP_RANK_INCREASE * Math.min(MAX_ENERGY_PENALTY, 100 / Math.max(parent.data.battery, 1)));
+};
+
+// Candidate parents of every active node: the neighbours it has a usable
+// upward link to, with the rank increase of the best such link.
+const parentCandidates = (nodes: Node<NodeData>[], edges: Edge<EdgeData>[], objective: RplObjective) => {
+  const byId = new Map(nodes.filter(n => !n.data.isFailed).map(n => [n.id, n]));
+  const candidates = new Map<string, Map<string, number>>(Array.from(byId.keys()).map(id => [id, new Map()]));
+  edges.forEach(edge => {
+    const parent = byId.get(edge.target);
+    if (!byId.has(edge.source) || !parent || edge.source === edge.target || !((edge.data?.bandwidth ?? 0) > 0)) return;
+    const increase = rankIncrease(objective, edge, parent);
+    const known = candidates.get(edge.source)!;
+    if (increase < (known.get(edge.target) ?? Infinity)) known.set(edge.target, increase);
+  });
+  return candidates;
+};
+
+const rootsOf = (nodes: Node<NodeData>[]) => nodes.filter(n => n.data.role === 'gateway' && !n.data.isFailed).map(n => n.id);
+
+const detachedOf = (nodes: Node<NodeData>[], ranks: Record<string, number>) =>
+  nodes.filter(n => !n.data.isFailed && ranks[n.id] === undefined).map(n => n.id);
+
+const countParentChanges = (before: Record<string, string | null>, after: Record<string, string | null>) =>
+  new Set([...Object.keys(before), ...Object.keys(after)]).size
+  - Object.keys(after).filter(id => id in before && before[id] === after[id]).length;
+
+// DIO flood from every active gateway. A node that hears a DIO works out the
+// rank it would get through the sender; if that beats its current rank it
+// makes the sender its preferred parent and sends its own DIO straight away.
+// DIOs are heard over links in either direction, but a node only adopts a
+// parent it has an upward link to. Trickle timers are not modelled.
+const floodDio = (
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  objective: RplObjective,
+  version: number,
+  kind: RplEvent['kind'],
+  previous: RplState | null
+): RplState => {
+  const neighbours: ControlLinks = controlNeighbours(nodes, edges);
+  const candidates = parentCandidates(nodes, edges, objective);
+  const ranks: Record<string, number> = {};
+  const parents: Record<string, string | null> = {};
+  const events = new MinPriorityQueue<{ nodeId: string; sender: string; advertisedRank: number }>();
+  let dioMessages = 0;
+  let signalingEnergy = 0;
+  let convergenceTimeMs = 0;
+
+  const sendDio = (sender: string, time: number) => {
+    const { receptions, energy } = broadcastReceptions(sender, neighbours, bytesToBits(DIO_BYTES), time);
+    dioMessages++;
+    signalingEnergy += energy;
+    receptions.forEach(reception => events.push({ nodeId: reception.nodeId, sender, advertisedRank: ranks[sender] }, reception.arrivedAt));
+  };
+  rootsOf(nodes).forEach(root => {
+    ranks[root] = MIN_HOP_RANK_INCREASE;
+    parents[root] = null;
+  });
+  Object.keys(ranks).forEach(root => sendDio(root, 0));
+
+  while (!events.isEmpty()) {
+    const { value: { nodeId, sender, advertisedRank }, priority: time } = events.pop()!;
+    const rank = advertisedRank + (candidates.get(nodeId)!.get(sender) ?? Infinity);
+    if (!(rank < (ranks[nodeId] ?? Infinity))) continue;
+    ranks[nodeId] = rank;
+    parents[nodeId] = sender;
+    convergenceTimeMs = Math.max(convergenceTimeMs, time);
+    sendDio(nodeId, time);
+  }
+
+  const newlyFailed = previous ? Object.keys(previous.parents).filter(id => !candidates.has(id)) : [];
+  return {
+    objective,
+    version,
+    ranks,
+    parents,
+    detached: detachedOf(nodes, ranks),
+    history: [...(previous?.history ?? []), {
+      kind,
+      version,
+      newlyFailed,
+      dioMessages,
+      controlBytes: dioMessages * DIO_BYTES,
+      signalingEnergy,
+      convergenceTimeMs,
+      parentChanges: countParentChanges(previous?.parents ?? {}, parents),
+    }],
+  };
+};
+
+// Builds a fresh DODAG rooted at the active gateways.
+export const buildDodag = (nodes: Node<NodeData>[], edges: Edge<EdgeData>[], objective: RplObjective): RplState =>
+  floodDio(nodes, edges, objective, 0, 'build', null);
+
+// Global repair: the roots bump the DODAG version and every node rejoins from
+// scratch, which restores the ranks the objective function would pick now.
+export const globalRepair = (state: RplState, nodes: Node<NodeData>[], edges: Edge<EdgeData>[]): RplState =>
+  floodDio(nodes, edges, state.objective, state.version + 1, 'global-repair', state);
+
+// Local repair within the current version. A node whose preferred parent is
+// down, detached or no longer linked to it switches to another neighbour of strictly lower rank, so
+// no loop can form; if it has none it detaches and poisons its subtree with
+// an infinite-rank DIO. Detached nodes then join through any attached
+// neighbour, and nodes whose rank changed advertise it with a DIO that their
+// children recompute from. Parents are otherwise kept, even if the objective
+// function would now prefer another one.
+export const localRepair = (state: RplState, nodes: Node<NodeData>[], edges: Edge<EdgeData>[]): RplState => {
+  const { objective } = state;
+  const neighbours = controlNeighbours(nodes, edges);
+  const candidates = parentCandidates(nodes, edges, objective);
+  const roots = new Set(rootsOf(nodes));
+  const oldRanks = state.ranks;
+  const ranks: Record<string, number> = {};
+  const parents: Record<string, string | null> = {};
+  Object.entries(state.parents).forEach(([id, parent]) => {
+    if (candidates.has(id)) {
+      ranks[id] = oldRanks[id];
+      parents[id] = parent;
+    }
+  });
+  roots.forEach(root => {
+    ranks[root] = MIN_HOP_RANK_INCREASE;
+    parents[root] = null;
+  });
+  const bestParent = (id: string, accept: (parent: string) => boolean) => {
+    let best: { parent: string; rank: number } | null = null;
+    candidates.get(id)!.forEach((increase, parent) => {
+      if (ranks[parent] === undefined || !accept(parent)) return;
+      const rank = ranks[parent] + increase;
+      if (rank < (best?.rank ?? Infinity)) best = { parent, rank };
+    });
+    return best as { parent: string; rank: number } | null;
+  };
+
+  // Parent loss, lowest ranks first; a detached node can orphan others.
+  const lostParent = (id: string) => {
+    const parent = parents[id];
+    return parent !== null && (ranks[parent] === undefined || !candidates.get(id)!.has(parent));
+  };
+  const poisoned = new Set<string>();
+  let changed = true;
+  while (changed) {
+    changed = false;
+    Object.keys(parents)
+      .filter(lostParent)
+      .sort((a, b) => oldRanks[a] - oldRanks[b])
+      .forEach(id => {
+        if (!lostParent(id)) return;
+        const alternative = bestParent(id, parent => ranks[parent] < oldRanks[id]);
+        if (alternative) {
+          parents[id] = alternative.parent;
+          ranks[id] = alternative.rank;
+        } else {
+          delete parents[id];
+          delete ranks[id];
+          poisoned.add(id);
+        }
+        changed = true;
+      });
+  }
+
+  // Detached and recovered nodes join wherever they hear an attached neighbour.
+  let joined = true;
+  while (joined) {
+    joined = false;
+    detachedOf(nodes, ranks).forEach(id => {
+      const parent = bestParent(id, () => true);
+      if (!parent) return;
+      parents[id] = parent.parent;
+      ranks[id] = parent.rank;
+      joined = true;
+    });
+  }
+
+  // Only nodes whose parent chain still reaches a root stay attached.
+  const children = new Map<string, string[]>();
+  Object.entries(parents).forEach(([id, parent]) => {
+    if (parent !== null) children.set(parent, [...(children.get(parent) ?? []), id]);
+  });
+  const reachable = new Set(roots);
+  const frontier = Array.from(roots);
+  while (frontier.length > 0) {
+    (children.get(frontier.pop()!) ?? []).forEach(child => {
+      reachable.add(child);
+      frontier.push(child);
+    });
+  }
+  Object.keys(parents).filter(id => !reachable.has(id)).forEach(id => {
+    delete parents[id];
+    delete ranks[id];
+    poisoned.add(id);
+  });
+
+  // Ranks settle top-down: a node whose rank changed sends one DIO, and its
+  // children work out their own rank when they hear it.
+  let dioMessages = 0;
+  let signalingEnergy = 0;
+  let convergenceTimeMs = 0;
+  const dioBits = bytesToBits(DIO_BYTES);
+  poisoned.forEach(id => {
+    if (ranks[id] !== undefined) return;
+    dioMessages++;
+    signalingEnergy += broadcastReceptions(id, neighbours, dioBits, 0).energy;
+  });
+  const settle = (id: string, at: number) => {
+    const parent = parents[id];
+    const increase = parent !== null ? candidates.get(id)?.get(parent) : undefined;
+    if (parent !== null && increase !== undefined) ranks[id] = ranks[parent] + increase;
+    let heardAt = (_child: string) => 0;
+    if (ranks[id] !== oldRanks[id]) {
+      const { receptions, energy } = broadcastReceptions(id, neighbours, dioBits, at);
+      dioMessages++;
+      signalingEnergy += energy;
+      convergenceTimeMs = Math.max(convergenceTimeMs, at);
+      heardAt = child => receptions.find(reception => reception.nodeId === child)?.arrivedAt ?? at;
+    }
+    (children.get(id) ?? []).forEach(child => settle(child, heardAt(child)));
+  };
+  roots.forEach(root => settle(root, 0));
+
+  return {
+    objective,
+    version: state.version,
+    ranks,
+    parents,
+    detached: detachedOf(nodes, ranks),
+    history: [...state.history, {
+      kind: 'local-repair',
+      version: state.version,
+      newlyFailed: Object.keys(state.parents).filter(id => !candidates.has(id)),
+      dioMessages,
+      controlBytes: dioMessages * DIO_BYTES,
+      signalingEnergy,
+      convergenceTimeMs,
+      parentChanges: countParentChanges(state.parents, parents),
+    }],
+  };
+};
+
+// Upward route of `nodeId` along preferred parents, ending at its root.
+export const upwardRoute = (state: RplState, nodeId: string): string[] => {
+  const route = [nodeId];
+  while (state.parents[route[route.length - 1]] !== undefined && state.parents[route[route.length - 1]] !== null) {
+    route.push(state.parents[route[route.length - 1]]!);
+  }
+  return state.ranks[nodeId] === undefined ? [] : route;
+};
@@ -0,0 +1,317 @@
+import type { Node, Edge } from 'reactflow';
+import type {
+  NodeData,
+  EdgeData,
+  SimulationParams,
+  SimulationResult,
+  TrafficFlow,
+  FlowResult,
+  ConvergecastSummary,
+  PerformanceMetricsData,
+} from '@/context/network-context';
+import { findPathDijkstra, findPathBellmanFord, createAdaptiveCost, type PerceivedNodeState } from '@/lib/routing';
+import { createRng, type Rng } from '@/lib/random';
+import {
+  computePathMetrics,
+  computeFlowSetMetrics,
+  computeQueueStates,
+  DEFAULT_BUFFER_CAPACITY,
+  type FlowPath,
+} from '@/lib/metrics-model';
+import { runPacketSimulation, metricsFromTrace } from '@/lib/packet-simulator';
+import { runLifetimeSimulation } from '@/lib/lifetime-simulator';
+import { trafficSourceFor, meanRate } from '@/lib/traffic-generator';
+import { summarize } from '@/lib/statistics';
+import { runLinkStateProtocol, linkStatePath, type LinkStateRun } from '@/lib/link-state';
+import { createAodvSession, type AodvRouteCache, type AodvSession } from '@/lib/aodv';
+
+export type RoutingAlgorithm = Exclude<SimulationParams['algorithm'], 'compare'>;
+
+export const PRIORITY_LEVELS: Record<TrafficFlow['priority'], number> = { low: 1, normal: 2, high: 3 };
+
+interface RouteChoice {
+  path: string[];
+  pathCost?: number;
+  negativeCycle?: string[];
+}
+
+interface RoutedFlow {
+  flow: TrafficFlow;
+  route: RouteChoice;
+}
+
+// The flow table when it has entries, otherwise the single source → target
+// flow described by the global packet parameters.
+export const resolveFlows = (params: SimulationParams): TrafficFlow[] => {
+  if (params.flows.length > 0) return params.flows;
+  if (!params.sourceNode || !params.targetNode) return [];
+  return [{
+    id: 'primary',
+    source: params.sourceNode,
+    target: params.targetNode,
+    rate: params.packetRate,
+    packetSize: params.packetSize,
+    priority: 'normal',
+  }];
+};
+
+// The protocol only depends on the links and on which nodes are up, so flows
+// and lifetime rounds share a run until a node dies.
+const linkStateRuns = new WeakMap<Edge<EdgeData>[], Map<string, LinkStateRun>>();
+const linkStateRunFor = (nodes: Node<NodeData>[], edges: Edge<EdgeData>[]): LinkStateRun => {
+  let byActiveNodes = linkStateRuns.get(edges);
+  if (!byActiveNodes) {
+    byActiveNodes = new Map();
+    linkStateRuns.set(edges, byActiveNodes);
+  }
+  const activeKey = nodes.filter(n => !n.data.isFailed).map(n => n.id).join('|');
+  let run = byActiveNodes.get(activeKey);
+  if (!run) {
+    run = runLinkStateProtocol(nodes, edges);
+    byActiveNodes.set(activeKey, run);
+  }
+  return run;
+};
+
+// Sum of the link latencies along a path found by a distributed protocol.
+const pathLatency = (path: string[], edges: Edge<EdgeData>[]): number =>
+  path.slice(1).reduce((sum, id, idx) =>
+    sum + Math.min(...edges.filter(e => e.source === path[idx] && e.target === id).map(e => e.data?.latency ?? 0)), 0);
+
+// Path selection for one algorithm on the given node state. AODV routes
+// through `aodv`, which remembers them between calls.
+const routePath = (
+  algo: RoutingAlgorithm,
+  sourceId: string,
+  targetId: string,
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  weights: SimulationParams['weights'],
+  rng: Rng,
+  aodv?: AodvSession
+): RouteChoice => {
+  if (algo === 'adaptive') {
+    // Each node's state is perceived once per route computation, with slight measurement noise
+    const perceivedStates = new Map<string, PerceivedNodeState>();
+    nodes.filter(node => !node.data.isFailed).forEach(node => {
+      perceivedStates.set(node.id, {
+        battery: Math.max(0, Math.min(100, node.data.battery - Math.floor(rng() * 5) + 2)),
+        queueSize: Math.max(0, node.data.queueSize + Math.floor(rng() * 6) - 3),
+      });
+    });
+    const adaptiveResult = findPathDijkstra(sourceId, targetId, nodes, edges, createAdaptiveCost(weights, perceivedStates));
+    return { path: adaptiveResult.path, pathCost: adaptiveResult.path.length > 0 ? adaptiveResult.cost : undefined };
+  }
+  if (algo === 'link-state') { // Distributed SPF over each node's own topology database
+    const path = linkStatePath(linkStateRunFor(nodes, edges), sourceId, targetId, nodes, edges);
+    return { path, pathCost: path.length > 0 ? pathLatency(path, edges) : undefined };
+  }
+  if (algo === 'aodv') { // On-demand discovery; the first RREQ to arrive sets the route
+    const path = aodv?.route(sourceId, targetId, nodes, edges) ?? [];
+    return { path, pathCost: path.length > 0 ? pathLatency(path, edges) : undefined };
+  }
+  if (algo === 'dijkstra') { // Minimum total latency over directed edges
+    const dijkstraResult = findPathDijkstra(sourceId, targetId, nodes, edges);
+    return { path: dijkstraResult.path, pathCost: dijkstraResult.path.length > 0 ? dijkstraResult.cost : undefined };
+  }
+  // Bellman-Ford: harvest-aware cost, may go negative
+  const bellmanFordResult = findPathBellmanFord(sourceId, targetId, nodes, edges);
+  return {
+    path: bellmanFordResult.path,
+    pathCost: bellmanFordResult.path.length > 0 ? bellmanFordResult.cost : undefined,
+    negativeCycle: bellmanFordResult.negativeCycle,
+  };
+};
+
+// Anycast: routes the sensor to every active gateway and keeps the cheapest
+// route. An orphaned sensor comes back with an empty path and no target.
+const routeToNearestGateway = (
+  algo: RoutingAlgorithm,
+  sensorId: string,
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  weights: SimulationParams['weights'],
+  rng: Rng,
+  aodv?: AodvSession
+): RouteChoice & { target: string } => {
+  let best: RouteChoice & { target: string } = { path: [], target: '' };
+  for (const gateway of nodes.filter(n => n.data.role === 'gateway' && !n.data.isFailed)) {
+    const route = routePath(algo, sensorId, gateway.id, nodes, edges, weights, rng, aodv);
+    if (route.negativeCycle) return { ...route, target: gateway.id };
+    if (route.path.length > 1 && (best.pathCost === undefined || (route.pathCost ?? Infinity) < best.pathCost)) {
+      best = { ...route, target: gateway.id };
+    }
+  }
+  return best;
+};
+
+// The flows of one routing round. Convergecast derives them from the current
+// node state, so sensors that have died stop reporting.
+const routeFlows = (
+  algo: RoutingAlgorithm,
+  params: SimulationParams,
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  rng: Rng,
+  aodv?: AodvSession
+): RoutedFlow[] => {
+  if (params.trafficPattern === 'convergecast') {
+    return nodes
+      .filter(n => n.data.role === 'sensor' && !n.data.isFailed)
+      .map(sensor => {
+        const { target, ...route } = routeToNearestGateway(algo, sensor.id, nodes, edges, params.weights, rng, aodv);
+        return {
+          flow: { id: sensor.id, source: sensor.id, target, rate: params.packetRate, packetSize: params.packetSize, priority: 'normal' },
+          route,
+        };
+      });
+  }
+  return resolveFlows(params).map(flow => ({
+    flow,
+    route: routePath(algo, flow.source, flow.target, nodes, edges, params.weights, rng, aodv),
+  }));
+};
+
+// Shape of the routing tree formed by the convergecast routes.
+const summarizeConvergecast = (routed: RoutedFlow[], nodes: Node<NodeData>[]): ConvergecastSummary => {
+  const gatewayLoad: Record<string, number> = Object.fromEntries(
+    nodes.filter(n => n.data.role === 'gateway' && !n.data.isFailed).map(n => [n.id, 0])
+  );
+  routed.forEach(({ flow, route }) => {
+    if (route.path.length > 1) gatewayLoad[flow.target] = (gatewayLoad[flow.target] ?? 0) + 1;
+  });
+  return {
+    treeDepth: Math.max(0, ...routed.map(({ route }) => route.path.length - 1)),
+    gatewayLoad,
+    orphanedSensors: routed.filter(({ route }) => route.path.length <= 1).map(({ flow }) => flow.source),
+  };
+};
+
+// Runs one routing algorithm for every flow and derives per-flow and aggregate
+// metrics from the chosen paths: analytically, by replaying all flows' packets
+// together over shared nodes and links, or by draining batteries round after
+// round. All randomness comes from a generator seeded with `params.seed`, so
+// the same inputs always give the same result. AODV starts from the routes in
+// `aodvRoutes` and hands back the ones still active in `result.aodv.routes`.
+export const simulateAlgorithm = (
+  algo: RoutingAlgorithm,
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  params: SimulationParams,
+  aodvRoutes: AodvRouteCache = {}
+): SimulationResult => {
+  const { seed } = params;
+  const rng = createRng(seed);
+  const aodv = algo === 'aodv' ? createAodvSession(aodvRoutes, params) : undefined;
+  const routed = routeFlows(algo, params, nodes, edges, rng, aodv);
+  const flows = routed.map(({ flow }) => flow);
+  const routes = routed.map(({ route }) => route);
+  const isConvergecast = params.trafficPattern === 'convergecast';
+  const primary = routes[0] ?? { path: [] };
+  const negativeCycle = routes.find(route => route.negativeCycle)?.negativeCycle;
+  const routable = routes.length > 0 && routes.every(route => route.path.length > 1);
+
+  const flowPaths: FlowPath[] = flows.map((flow, idx) => ({
+    path: routes[idx].path,
+    packetSizeBytes: flow.packetSize,
+    rate: meanRate(trafficSourceFor(nodes.find(n => n.id === flow.source), flow.rate)),
+  }));
+  const queues = computeQueueStates(flowPaths, nodes, edges, params.maxRetries);
+  const flowResults: FlowResult[] = flows.map((flow, idx) => ({
+    flowId: flow.id,
+    source: flow.source,
+    target: flow.target,
+    path: routes[idx].path,
+    pathCost: routes[idx].pathCost,
+    metrics: computePathMetrics(routes[idx].path, nodes, edges, flow.packetSize, params.maxRetries, queues),
+  }));
+  const baseResult = {
+    algorithm: algo,
+    path: primary.path,
+    pathCost: primary.pathCost,
+    seed,
+    flowResults: isConvergecast || params.flows.length > 0 ? flowResults : undefined,
+    convergecast: isConvergecast ? summarizeConvergecast(routed, nodes) : undefined,
+    linkState: algo === 'link-state' ? linkStateRunFor(nodes, edges).report : undefined,
+  };
+
+  if (params.simulationMode === 'packet' && !negativeCycle) {
+    const packetTrace = runPacketSimulation(
+      flows.map((flow, idx) => ({
+        id: flow.id,
+        path: routes[idx].path,
+        traffic: trafficSourceFor(nodes.find(n => n.id === flow.source), flow.rate),
+        packetSizeBytes: flow.packetSize,
+        priority: PRIORITY_LEVELS[flow.priority],
+      })),
+      nodes,
+      edges,
+      { durationMs: params.simulationDuration, bufferCapacity: DEFAULT_BUFFER_CAPACITY, maxRetries: params.maxRetries, rng }
+    );
+    flowResults.forEach(flowResult => {
+      if (flowResult.path.length > 1) flowResult.metrics = metricsFromTrace(packetTrace, nodes, flowResult.flowId);
+    });
+    return { ...baseResult, aodv: aodv?.report(), packetTrace, metrics: metricsFromTrace(packetTrace, nodes) };
+  }
+
+  if (params.simulationMode === 'lifetime' && routable && !negativeCycle) {
+    // Routes are re-chosen every round as batteries drain and nodes die.
+    const { report, metrics } = runLifetimeSimulation(
+      nodes,
+      edges,
+      roundNodes => routeFlows(algo, params, roundNodes, edges, rng, aodv).map(({ flow, route }) => ({
+        path: route.path,
+        packetSizeBytes: flow.packetSize,
+        rate: meanRate(trafficSourceFor(roundNodes.find(n => n.id === flow.source), flow.rate)),
+      })),
+      { deathThreshold: params.deathThreshold, maxRetries: params.maxRetries }
+    );
+    return { ...baseResult, aodv: aodv?.report(), lifetime: report, metrics };
+  }
+
+  return {
+    ...baseResult,
+    aodv: aodv?.report(),
+    negativeCycle,
+    queues: Object.fromEntries(queues),
+    metrics: computeFlowSetMetrics(flowPaths, nodes, edges, params.maxRetries),
+  };
+};
+
+// One value per metric; listing the keys lets the compiler catch a metric left out.
+const mapMetrics = <T>(valueOf: (key: keyof PerformanceMetricsData) => T): Record<keyof PerformanceMetricsData, T> => ({
+  energyConsumption: valueOf('energyConsumption'),
+  averageLatency: valueOf('averageLatency'),
+  deliveryRatio: valueOf('deliveryRatio'),
+  networkLifetime: valueOf('networkLifetime'),
+});
+
+// Runs per batch, as the replications field may hold any number.
+export const replicationCount = (params: Pick<SimulationParams, 'replications'>) => Math.max(1, Math.floor(params.replications));
+
+// Monte Carlo batch: `params.replications` independent runs with seeds
+// seed, seed + 1, …. The first run supplies the path, trace and timeline; the
+// metrics are the means over all runs, with their spread in `batch`.
+export const simulateReplications = (
+  algo: RoutingAlgorithm,
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  params: SimulationParams,
+  aodvRoutes: AodvRouteCache = {}
+): SimulationResult => {
+  const replications = replicationCount(params);
+  const runs = Array.from({ length: replications }, (_, idx) =>
+    simulateAlgorithm(algo, nodes, edges, { ...params, seed: params.seed + idx }, aodvRoutes)
+  );
+  if (replications === 1) return runs[0];
+
+  const stats = mapMetrics(key => summarize(runs.map(run => run.metrics[key])));
+  // The batch counts as cut off at the round limit if any of its runs was.
+  const roundLimit = runs.find(run => run.lifetime?.roundLimit != null)?.lifetime?.roundLimit ?? null;
+  return {
+    ...runs[0],
+    lifetime: runs[0].lifetime && { ...runs[0].lifetime, roundLimit },
+    metrics: mapMetrics(key => stats[key].mean),
+    batch: { replications, seeds: runs.map(run => run.seed), metrics: stats },
+  };
+};
@@ -0,0 +1,33 @@
+// Summary statistics for replicated simulation runs.
+
+export interface MetricStats {
+  mean: number;
+  stdDev: number; // Sample standard deviation (n − 1)
+  ciHalfWidth: number; // Half-width of the 95% confidence interval of the mean
+  n: number; // Finite samples the statistics are based on
+}
+
+// Two-sided 97.5% quantiles of Student's t for 1–30 degrees of freedom.
+const T_975 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+  2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+export const tCritical95 = (degreesOfFreedom: number): number =>
+  degreesOfFreedom <= T_975.length
+    ? T_975[Math.max(1, degreesOfFreedom) - 1]
+    : 1.96 + 2.5 / degreesOfFreedom; // Close to the exact value beyond 30 d.o.f.
+
+// Mean, spread and 95% CI over the finite values; runs where a metric is
+// undefined (e.g. latency with nothing delivered) are left out.
+export const summarize = (values: number[]): MetricStats => {
+  const finite = values.filter(Number.isFinite);
+  const n = finite.length;
+  if (n === 0) return { mean: values.length > 0 ? values[0] : NaN, stdDev: 0, ciHalfWidth: 0, n };
+  const mean = finite.reduce((sum, v) => sum + v, 0) / n;
+  if (n === 1) return { mean, stdDev: 0, ciHalfWidth: 0, n };
+  const variance = finite.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1);
+  const stdDev = Math.sqrt(variance);
+  return { mean, stdDev, ciHalfWidth: tCritical95(n - 1) * stdDev / Math.sqrt(n), n };
+};
@@ -0,0 +1,255 @@
+import type { Node, Edge } from 'reactflow';
+import type { NodeData, EdgeData } from '@/context/network-context';
+import type { PacketTrace } from '@/lib/packet-simulator';
+import type { LifetimeReport } from '@/lib/lifetime-simulator';
+import type { LinkStateReport } from '@/lib/link-state';
+import type { AodvReport } from '@/lib/aodv';
+import type { ControlTransmission } from '@/lib/control-plane';
+import { BATTERY_CAPACITY_UJ } from '@/lib/metrics-model';
+
+const MAX_PACKET_FRAMES = 200;
+
+export type NodeFrameState = Partial<Pick<NodeData, 'battery' | 'queueSize' | 'isFailed'>>;
+
+export interface PacketDot {
+  packetId: number;
+  flowId: string;
+  edgeId: string;
+  progress: number; // 0 at the edge's source, 1 at its target
+}
+
+export interface PacketDrop {
+  packetId: number;
+  edgeId: string;
+  progress: number; // Where on the edge to draw the burst
+}
+
+// State of the network at one simulation tick, overlaid on the canvas during playback.
+export interface TimelineFrame {
+  time: number;
+  label: string;
+  nodeStates: Record<string, NodeFrameState>;
+  activeEdges: string[]; // Edge ids carrying traffic at this tick
+  packets?: PacketDot[]; // Packets on the wire during this tick (packet-level runs only)
+  drops?: PacketDrop[]; // Packets dropped during this tick
+}
+
+const edgeIdLookup = (edges: Edge<EdgeData>[]) => {
+  const byHop = new Map(edges.map(e => [`${e.source}->${e.target}`, e.id]));
+  return (from: string, to: string) => byHop.get(`${from}->${to}`);
+};
+
+const roundBattery = (battery: number) => Math.round(battery * 10) / 10;
+
+// Samples a packet trace at evenly spaced ticks. Queue lengths and battery
+// levels are replayed from the trace logs; an edge is active while a packet is
+// on air or propagating over it. Every packet that used an edge during a tick
+// is drawn as a dot, so dot density follows the traffic on that link.
+export const buildPacketTimeline = (
+  trace: PacketTrace,
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[]
+): TimelineFrame[] => {
+  const edgeId = edgeIdLookup(edges);
+  const endTime = Math.max(trace.endTime, 1);
+  const step = endTime / MAX_PACKET_FRAMES;
+
+  // [start, end) intervals during which each edge carries a packet
+  const edgeBusy: { edgeId: string; start: number; end: number; packetId: number; flowId: string }[] = [];
+  const dropEvents: { time: number; drop: PacketDrop }[] = [];
+  trace.packets.forEach(packet => {
+    packet.hops.forEach((hop, idx) => {
+      if (hop.departedAt === undefined) return;
+      const next = packet.hops[idx + 1];
+      const end = next ? next.arrivedAt : packet.droppedAt;
+      const nextNodeId = next?.nodeId ?? packet.lostTowardsNodeId;
+      if (end === undefined || !nextNodeId) return;
+      const id = edgeId(hop.nodeId, nextNodeId);
+      if (id) edgeBusy.push({ edgeId: id, start: hop.departedAt, end, packetId: packet.id, flowId: packet.flowId });
+    });
+
+    // Link losses burst mid-edge; overflow drops burst where the packet arrived.
+    // Packets refused by a full source buffer never reached an edge and are not drawn.
+    if (packet.status === 'dropped' && packet.droppedAt !== undefined) {
+      const { hops } = packet;
+      const last = hops[hops.length - 1];
+      if (packet.dropReason === 'link-loss' && last.departedAt !== undefined) {
+        const id = edgeId(last.nodeId, packet.lostTowardsNodeId!);
+        if (id) dropEvents.push({ time: packet.droppedAt, drop: { packetId: packet.id, edgeId: id, progress: 0.5 } });
+      } else if (hops.length > 1) {
+        const id = edgeId(hops[hops.length - 2].nodeId, last.nodeId);
+        if (id) dropEvents.push({ time: packet.droppedAt, drop: { packetId: packet.id, edgeId: id, progress: 1 } });
+      }
+    }
+  });
+
+  const queueLengths: Record<string, number> = {};
+  const spent: Record<string, number> = {};
+  let queueCursor = 0;
+  let energyCursor = 0;
+  const frames: TimelineFrame[] = [];
+
+  for (let tick = 0; tick <= MAX_PACKET_FRAMES; tick++) {
+    const time = tick * step;
+    while (queueCursor < trace.queueLog.length && trace.queueLog[queueCursor].time <= time) {
+      const sample = trace.queueLog[queueCursor++];
+      queueLengths[sample.nodeId] = sample.length;
+    }
+    while (energyCursor < trace.energyLog.length && trace.energyLog[energyCursor].time <= time) {
+      const sample = trace.energyLog[energyCursor++];
+      spent[sample.nodeId] = (spent[sample.nodeId] ?? 0) + sample.energy;
+    }
+
+    const nodeStates: Record<string, NodeFrameState> = {};
+    nodes.forEach(node => {
+      if (node.data.isFailed) return;
+      nodeStates[node.id] = {
+        queueSize: queueLengths[node.id] ?? 0,
+        battery: roundBattery(Math.max(0, node.data.battery - ((spent[node.id] ?? 0) / BATTERY_CAPACITY_UJ) * 100)),
+      };
+    });
+
+    const activeEdges = new Set<string>();
+    const packets: PacketDot[] = [];
+    const windowStart = time - step;
+    edgeBusy.forEach(busy => {
+      if (busy.start <= time && time < busy.end) activeEdges.add(busy.edgeId);
+      const overlapStart = Math.max(busy.start, windowStart);
+      const overlapEnd = Math.min(busy.end, time);
+      if (overlapStart > overlapEnd || busy.end <= busy.start) return;
+      const midpoint = (overlapStart + overlapEnd) / 2;
+      packets.push({
+        packetId: busy.packetId,
+        flowId: busy.flowId,
+        edgeId: busy.edgeId,
+        progress: (midpoint - busy.start) / (busy.end - busy.start),
+      });
+    });
+    const drops = dropEvents
+      .filter(event => event.time > windowStart && event.time <= time)
+      .map(event => event.drop);
+
+    frames.push({ time, label: `t = ${time.toFixed(1)} ms`, nodeStates, activeEdges: Array.from(activeEdges), packets, drops });
+  }
+  return frames;
+};
+
+// One frame per recorded lifetime snapshot.
+export const buildLifetimeTimeline = (
+  report: LifetimeReport,
+  edges: Edge<EdgeData>[]
+): TimelineFrame[] => {
+  const edgeId = edgeIdLookup(edges);
+  return report.snapshots.map(snapshot => {
+    const failed = new Set(snapshot.failed);
+    const nodeStates: Record<string, NodeFrameState> = {};
+    Object.entries(snapshot.batteries).forEach(([nodeId, battery]) => {
+      nodeStates[nodeId] = { battery, isFailed: failed.has(nodeId) };
+    });
+    const activeEdges = snapshot.paths.flatMap(path => path.slice(0, -1)
+      .map((nodeId, idx) => edgeId(nodeId, path[idx + 1]))
+      .filter((id): id is string => id !== undefined));
+    return { time: snapshot.round, label: `Round ${snapshot.round}`, nodeStates, activeEdges };
+  });
+};
+
+// Samples control traffic at evenly spaced ticks. Each message in the air is a
+// dot on the link it crosses, coloured by `flowIdOf`; messages heard over a
+// link drawn the other way run backwards along it.
+const controlTrafficFrames = (
+  transmissions: ControlTransmission[],
+  flowIdOf: (transmission: ControlTransmission) => string,
+  phaseAt: (time: number) => string
+): TimelineFrame[] => {
+  const receptions = transmissions.flatMap(transmission => transmission.receptions.map(reception => ({
+    ...reception,
+    sentAt: transmission.sentAt,
+    flowId: flowIdOf(transmission),
+  })));
+  const endTime = Math.max(1, ...receptions.map(reception => reception.arrivedAt));
+  const step = endTime / MAX_PACKET_FRAMES;
+
+  const frames: TimelineFrame[] = [];
+  for (let tick = 0; tick <= MAX_PACKET_FRAMES; tick++) {
+    const time = tick * step;
+    const packets: PacketDot[] = [];
+    receptions.forEach((reception, idx) => {
+      if (reception.sentAt > time || time > reception.arrivedAt || reception.arrivedAt <= reception.sentAt) return;
+      const progress = (time - reception.sentAt) / (reception.arrivedAt - reception.sentAt);
+      packets.push({ packetId: idx, flowId: reception.flowId, edgeId: reception.edgeId, progress: reception.reversed ? 1 - progress : progress });
+    });
+    frames.push({
+      time,
+      label: `t = ${time.toFixed(1)} ms · ${phaseAt(time)}`,
+      nodeStates: {},
+      activeEdges: Array.from(new Set(packets.map(packet => packet.edgeId))),
+      packets,
+    });
+  }
+  return frames;
+};
+
+// Replays the link-state signalling: HELLOs and then the LSA flood, one
+// colour per LSA origin.
+export const buildLinkStateTimeline = (report: LinkStateReport): TimelineFrame[] => {
+  const helloEnd = Math.max(0, ...report.transmissions
+    .filter(transmission => transmission.kind === 'hello')
+    .flatMap(transmission => transmission.receptions.map(reception => reception.arrivedAt)));
+  return controlTrafficFrames(
+    report.transmissions,
+    transmission => transmission.kind === 'hello' ? 'hello' : `lsa-${transmission.origin}`,
+    time => time < helloEnd ? 'HELLO' : 'LSA flood'
+  );
+};
+
+// Replays AODV's route discoveries and repairs, coloured by message type. The
+// label names the message types in the air at each tick.
+export const buildAodvTimeline = (report: AodvReport): TimelineFrame[] => {
+  const names: Record<ControlTransmission['kind'], string> = { hello: 'HELLO', tc: 'TC', rreq: 'RREQ', rrep: 'RREP', rerr: 'RERR' };
+  const inAir = (time: number) => Array.from(new Set(report.transmissions
+    .filter(transmission => transmission.sentAt <= time && transmission.receptions.some(reception => reception.arrivedAt >= time))
+    .map(transmission => names[transmission.kind]))).join(' + ');
+  return controlTrafficFrames(report.transmissions, transmission => transmission.kind, time => inAir(time) || 'no control traffic');
+};
+
+// Applies a frame on top of the live canvas state.
+export const applyFrameToNodes = (nodes: Node<NodeData>[], frame: TimelineFrame | null): Node<NodeData>[] => {
+  if (!frame) return nodes;
+  return nodes.map(node => {
+    const state = frame.nodeStates[node.id];
+    return state ? { ...node, data: { ...node.data, ...state } } : node;
+  });
+};
+
+// Edge data during packet-level playback: the frame's packets and drops on that edge.
+export interface PacketEdgeData extends EdgeData {
+  packets?: PacketDot[];
+  drops?: PacketDrop[];
+}
+
+const groupByEdge = <T extends { edgeId: string }>(items: T[]) => {
+  const byEdge = new Map<string, T[]>();
+  items.forEach(item => byEdge.set(item.edgeId, [...(byEdge.get(item.edgeId) ?? []), item]));
+  return byEdge;
+};
+
+// Packet-level frames switch edges to the 'packet' type, which draws the
+// packets handed to it in its data as dots instead of the dashed animation.
+export const applyFrameToEdges = (edges: Edge<EdgeData>[], frame: TimelineFrame | null): Edge<PacketEdgeData>[] => {
+  if (!frame) return edges;
+  const active = new Set(frame.activeEdges);
+  const showsPackets = frame.packets !== undefined;
+  const packetsOn = groupByEdge(frame.packets ?? []);
+  const dropsOn = groupByEdge(frame.drops ?? []);
+  return edges.map(edge => ({
+    ...edge,
+    type: showsPackets ? 'packet' : edge.type,
+    data: showsPackets && edge.data ? { ...edge.data, packets: packetsOn.get(edge.id), drops: dropsOn.get(edge.id) } : edge.data,
+    style: {
+      ...edge.style,
+      stroke: active.has(edge.id) ? 'hsl(var(--accent))' : 'hsl(var(--primary))',
+      strokeWidth: active.has(edge.id) ? 3 : 2,
+    },
+    animated: !showsPackets && active.has(edge.id),
+  }));
+};
@@ -0,0 +1,76 @@
+import type { Node } from 'reactflow';
+import type { NodeData } from '@/context/network-context';
+import { exponentialSample, type Rng } from '@/lib/random';
+
+export type TrafficModel = Exclude<NonNullable<NodeData['trafficModel']>, 'none'>;
+
+export const DEFAULT_BURST_ON_MS = 500;
+export const DEFAULT_BURST_OFF_MS = 2000;
+
+// How a source injects packets: constant bit rate, Poisson arrivals, or
+// on/off bursts triggered by sensor events (CBR while on, silent while off).
+export interface TrafficSource {
+  model: TrafficModel;
+  rate: number; // Packets per second; for 'bursty' the rate while a burst is on
+  burstOnMs: number; // Mean burst duration ('bursty' only)
+  burstOffMs: number; // Mean quiet time between events ('bursty' only)
+}
+
+// The generator configured on a flow's source node, or CBR at the flow's own rate.
+export const trafficSourceFor = (node: Node<NodeData> | undefined, flowRate: number): TrafficSource => {
+  const data = node?.data;
+  return {
+    model: !data?.trafficModel || data.trafficModel === 'none' ? 'cbr' : data.trafficModel,
+    rate: data?.trafficModel && data.trafficModel !== 'none' && data.trafficRate ? data.trafficRate : flowRate,
+    burstOnMs: data?.burstOnMs ?? DEFAULT_BURST_ON_MS,
+    burstOffMs: data?.burstOffMs ?? DEFAULT_BURST_OFF_MS,
+  };
+};
+
+// Whether the source ever sends: a positive rate and, for 'bursty', bursts
+// that last some time and quiet periods that are not negative.
+const canSend = (source: TrafficSource): boolean =>
+  Number.isFinite(source.rate) && source.rate > 0 &&
+  (source.model !== 'bursty' || (Number.isFinite(source.burstOnMs) && source.burstOnMs > 0 && Number.isFinite(source.burstOffMs) && source.burstOffMs >= 0));
+
+// Long-run packets per second, used where traffic is modelled analytically.
+export const meanRate = (source: TrafficSource): number => {
+  if (!canSend(source)) return 0;
+  return source.model === 'bursty'
+    ? source.rate * source.burstOnMs / (source.burstOnMs + source.burstOffMs)
+    : source.rate;
+};
+
+// Returns a function yielding successive packet creation times (ms), starting
+// from t = 0. Random inter-arrival and burst times are drawn from `rng`. A
+// source that can never send yields Infinity, so callers see no packets.
+export const createArrivalProcess = (source: TrafficSource, rng: Rng): (() => number) => {
+  if (!canSend(source)) return () => Infinity;
+  const intervalMs = 1000 / source.rate;
+
+  if (source.model === 'poisson') {
+    let time = 0;
+    return () => (time += exponentialSample(rng, intervalMs));
+  }
+
+  if (source.model === 'bursty') {
+    let nextSend = exponentialSample(rng, source.burstOffMs);
+    let burstEnd = nextSend + exponentialSample(rng, source.burstOnMs);
+    return () => {
+      while (nextSend >= burstEnd) {
+        nextSend = burstEnd + exponentialSample(rng, source.burstOffMs);
+        burstEnd = nextSend + exponentialSample(rng, source.burstOnMs);
+      }
+      const time = nextSend;
+      nextSend += intervalMs;
+      return time;
+    };
+  }
+
+  let nextSend = 0;
+  return () => {
+    const time = nextSend;
+    nextSend += intervalMs;
+    return time;
+  };
+};
@@ -0,0 +1,145 @@
+import type { Node, Edge } from 'reactflow';
+import type { NodeData, EdgeData, SimulationParams, PerformanceMetricsData } from '@/context/network-context';
+import { simulateReplications, replicationCount } from '@/lib/simulation';
+import { HIGHER_IS_BETTER, simplexGrid, isComparable, type AdaptiveWeights, type MetricKey } from '@/lib/weight-sweep';
+
+const MAX_ITERATIONS = 60; // Per Nelder-Mead start
+const TOLERANCE = 1e-4; // Stop once the simplex is this small in weight space
+const INFEASIBLE = 1e12; // Any point over the latency ceiling ranks below every feasible one
+const SEED_GRID_STEP = 0.2; // Coarse grid used to pick starting points
+const GRID_STARTS = 2;
+
+export interface OptimizationGoal {
+  objective: MetricKey;
+  latencyCeiling: number | null; // ms; null for no constraint
+}
+
+export interface EvaluatedWeights {
+  weights: AdaptiveWeights;
+  metrics: PerformanceMetricsData;
+  feasible: boolean; // Meets the latency ceiling
+  roundLimited: boolean; // A lifetime run hit its round limit
+}
+
+export interface WeightOptimizationResult extends OptimizationGoal {
+  initial: EvaluatedWeights;
+  best: EvaluatedWeights;
+  evaluations: number; // Simulation runs spent by the search
+  roundLimitedPoints: number; // Weightings left out of a lifetime objective because a run hit its round limit
+}
+
+// Euclidean projection onto the simplex α + β + γ = 1, all weights ≥ 0.
+const projectToSimplex = (values: number[]): number[] => {
+  const sorted = [...values].sort((a, b) => b - a);
+  let cumulative = 0;
+  let threshold = 0;
+  sorted.forEach((value, idx) => {
+    cumulative += value;
+    const candidate = (cumulative - 1) / (idx + 1);
+    if (value - candidate > 0) threshold = candidate;
+  });
+  return values.map(value => Math.max(0, value - threshold));
+};
+
+// α and β are the free coordinates; γ makes up the rest.
+const toWeights = ([alpha, beta]: number[]): AdaptiveWeights => {
+  const [a, b, c] = projectToSimplex([alpha, beta, 1 - alpha - beta]);
+  return { alpha: a, beta: b, gamma: c };
+};
+
+// Minimizes `f` from `start` with the Nelder-Mead downhill simplex method.
+// Only the ordering of values matters, so penalty tiers are safe to use.
+const nelderMead = (f: (x: number[]) => number, start: number[], initialStep: number): number[] => {
+  const dimensions = start.length;
+  let simplex = [start, ...start.map((_, i) => start.map((v, j) => (i === j ? v + initialStep : v)))]
+    .map(x => ({ x, fx: f(x) }));
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    simplex.sort((a, b) => a.fx - b.fx);
+    const size = Math.max(...simplex.slice(1).map(p => Math.max(...p.x.map((v, i) => Math.abs(v - simplex[0].x[i])))));
+    if (size < TOLERANCE) break;
+
+    const worst = simplex[dimensions];
+    const centroid = start.map((_, i) => simplex.slice(0, dimensions).reduce((sum, p) => sum + p.x[i], 0) / dimensions);
+    const along = (t: number) => centroid.map((c, i) => c + t * (worst.x[i] - c));
+
+    const reflected = along(-1);
+    const fr = f(reflected);
+    if (fr < simplex[0].fx) {
+      const expanded = along(-2);
+      const fe = f(expanded);
+      simplex[dimensions] = fe < fr ? { x: expanded, fx: fe } : { x: reflected, fx: fr };
+    } else if (fr < simplex[dimensions - 1].fx) {
+      simplex[dimensions] = { x: reflected, fx: fr };
+    } else {
+      const contracted = fr < worst.fx ? along(-0.5) : along(0.5);
+      const fc = f(contracted);
+      if (fc < Math.min(fr, worst.fx)) {
+        simplex[dimensions] = { x: contracted, fx: fc };
+      } else {
+        const bestX = simplex[0].x;
+        simplex = simplex.map((p, idx) => {
+          if (idx === 0) return p;
+          const x = p.x.map((v, i) => bestX[i] + 0.5 * (v - bestX[i]));
+          return { x, fx: f(x) };
+        });
+      }
+    }
+  }
+  simplex.sort((a, b) => a.fx - b.fx);
+  return simplex[0].x;
+};
+
+// Searches the weight simplex for the adaptive weighting that optimizes
+// `goal.objective` while keeping average latency under the ceiling. Path choice
+// makes the objective piecewise constant, so a coarse grid is scored first and
+// Nelder-Mead runs from the current weights and the best grid points; the
+// winner is rounded to the sliders' 0.01 resolution and evaluated once more.
+export const optimizeWeights = (
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  params: SimulationParams,
+  goal: OptimizationGoal
+): WeightOptimizationResult => {
+  const cache = new Map<string, EvaluatedWeights>();
+  const evaluate = (weights: AdaptiveWeights): EvaluatedWeights => {
+    const key = [weights.alpha, weights.beta, weights.gamma].map(w => w.toFixed(4)).join('/');
+    let entry = cache.get(key);
+    if (!entry) {
+      const result = simulateReplications('adaptive', nodes, edges, { ...params, weights });
+      const { metrics } = result;
+      const feasible = goal.latencyCeiling === null || metrics.averageLatency <= goal.latencyCeiling;
+      entry = { weights, metrics, feasible, roundLimited: result.lifetime?.roundLimit != null };
+      cache.set(key, entry);
+    }
+    return entry;
+  };
+  const score = (entry: EvaluatedWeights): number => {
+    const { metrics, feasible } = entry;
+    const value = metrics[goal.objective];
+    if (!isComparable(entry, goal.objective) || !Number.isFinite(metrics.averageLatency)) return INFEASIBLE * 1000;
+    if (!feasible) return INFEASIBLE + (metrics.averageLatency - goal.latencyCeiling!);
+    return HIGHER_IS_BETTER[goal.objective] ? -value : value;
+  };
+  const objective = (x: number[]) => score(evaluate(toWeights(x)));
+
+  const initial = evaluate(params.weights);
+  const seeds = simplexGrid(SEED_GRID_STEP).map(evaluate).sort((a, b) => score(a) - score(b)).slice(0, GRID_STARTS);
+  const starts = [initial, ...seeds].map(({ weights }) => [weights.alpha, weights.beta]);
+  const candidates = starts.map(start => evaluate(toWeights(nelderMead(objective, start, SEED_GRID_STEP / 2))));
+
+  const rounded = candidates.map(candidate => {
+    const alpha = Math.round(candidate.weights.alpha * 100) / 100;
+    const beta = Math.round(candidate.weights.beta * 100) / 100;
+    return evaluate({ alpha, beta, gamma: Math.round((1 - alpha - beta) * 100) / 100 });
+  });
+  const best = [initial, ...rounded].reduce((winner, candidate) => score(candidate) < score(winner) ? candidate : winner);
+
+  return {
+    ...goal,
+    initial,
+    best,
+    evaluations: cache.size * replicationCount(params),
+    roundLimitedPoints: goal.objective === 'networkLifetime' ? Array.from(cache.values()).filter(entry => entry.roundLimited).length : 0,
+  };
+};
@@ -0,0 +1,67 @@
+import type { Node, Edge } from 'reactflow';
+import type { NodeData, EdgeData, SimulationParams, PerformanceMetricsData } from '@/context/network-context';
+import { simulateReplications } from '@/lib/simulation';
+
+export type AdaptiveWeights = SimulationParams['weights'];
+export type MetricKey = keyof PerformanceMetricsData;
+
+// Whether a larger value of the metric is the better one.
+export const HIGHER_IS_BETTER: Record<MetricKey, boolean> = {
+  energyConsumption: false,
+  averageLatency: false,
+  deliveryRatio: true,
+  networkLifetime: true,
+};
+
+export interface WeightSweepPoint {
+  weights: AdaptiveWeights;
+  metrics: PerformanceMetricsData;
+  roundLimited: boolean; // A lifetime run hit its round limit, so networkLifetime may be only a lower bound
+}
+
+// Whether `metric` of the point can be compared with other points.
+export const isComparable = (point: Pick<WeightSweepPoint, 'metrics' | 'roundLimited'>, metric: MetricKey) =>
+  Number.isFinite(point.metrics[metric]) && !(metric === 'networkLifetime' && point.roundLimited);
+
+export interface WeightSweepResult {
+  step: number;
+  points: WeightSweepPoint[];
+}
+
+// Every (α, β, γ) with α + β + γ = 1 on a grid of spacing `step`.
+export const simplexGrid = (step: number): AdaptiveWeights[] => {
+  const divisions = Math.max(1, Math.round(1 / step));
+  const grid: AdaptiveWeights[] = [];
+  for (let a = 0; a <= divisions; a++) {
+    for (let b = 0; b <= divisions - a; b++) {
+      grid.push({ alpha: a / divisions, beta: b / divisions, gamma: (divisions - a - b) / divisions });
+    }
+  }
+  return grid;
+};
+
+// Runs the adaptive algorithm (with the current mode, seed and replications)
+// once per grid point.
+export const runWeightSweep = (
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  params: SimulationParams,
+  step: number
+): WeightSweepResult => ({
+  step,
+  points: simplexGrid(step).map(weights => {
+    const result = simulateReplications('adaptive', nodes, edges, { ...params, weights });
+    return { weights, metrics: result.metrics, roundLimited: result.lifetime?.roundLimit != null };
+  }),
+});
+
+// Grid point with the best comparable value of `metric`, if any.
+export const bestSweepPoint = (sweep: WeightSweepResult, metric: MetricKey): WeightSweepPoint | undefined => {
+  const sign = HIGHER_IS_BETTER[metric] ? 1 : -1;
+  return sweep.points
+    .filter(point => isComparable(point, metric))
+    .reduce<WeightSweepPoint | undefined>(
+      (best, point) => !best || sign * point.metrics[metric] > sign * best.metrics[metric] ? point : best,
+      undefined
+    );
+};